@@ -1,14 +1,68 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
-import { analyzeAudio, AnalysisResult } from "@/lib/audio-analyzer";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import {
+  AnalysisProgress,
+  AnalysisResult,
+  AnalysisSettings,
+  AnalysisStage,
+  ChannelStrategy,
+  ChromaMethod,
+  formatBPM,
+  formatKeyName,
+  KeyCandidate,
+  KeyNotation,
+  KeyProfileChoice,
+  KEY_NOTATIONS,
+  SAMPLE_CATEGORY_LABELS,
+  sliceAtOnsets,
+} from "@/lib/audio-analyzer";
+import {
+  AnalysisFile,
+  analysisFileName,
+  createAnalysisFile,
+  parseAnalysisFile,
+  serializeAnalysisFile,
+} from "@/lib/analysis-file";
+import { analyzeAudio, isAbortError } from "@/lib/analyze-audio";
+import { downloadBlob } from "@/lib/download";
+import { compareWithMetadata, FileMetadata, hasMetadata, metadataPrior, readMetadata } from "@/lib/metadata-reader";
+import type { PartialAnalysis } from "@/lib/streaming-analysis";
+import { formatTagKey, tagValuesFor, writeTags } from "@/lib/tag-writer";
 import { VinylScratcher } from "@/components/VinylScratcher";
 import { AudioPlayer } from "@/components/AudioPlayer";
 import { KeyRadar } from "@/components/KeyRadar";
 import { BPMRadar } from "@/components/BPMRadar";
+import { ChannelPanel } from "@/components/ChannelPanel";
+import { CompatibleKeysPanel } from "@/components/CompatibleKeysPanel";
+import { DurationPanel } from "@/components/DurationPanel";
+import { KeyProfilePanel } from "@/components/KeyProfilePanel";
+import { LoudnessMeter } from "@/components/LoudnessMeter";
+import { MetadataPanel } from "@/components/MetadataPanel";
+import { PreparePanel } from "@/components/PreparePanel";
+import { SlicePanel } from "@/components/SlicePanel";
 
 type Status = "idle" | "analyzing" | "done" | "error";
 
+function isAnalysisFile(file: File): boolean {
+  return file.type === "application/json" || file.name.toLowerCase().endsWith(".json");
+}
+
+function formatTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  decode: "Decoding",
+  stream: "Detecting tempo & key",
+  onset: "Detecting tempo",
+  beats: "Tracking beats",
+  key: "Detecting key",
+  loudness: "Measuring loudness",
+};
+
 function LeafDecoration({ className }: { className?: string }) {
   return (
     <svg
@@ -95,8 +149,20 @@ export default function Home() {
   const [status, setStatus] = useState<Status>("idle");
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [partial, setPartial] = useState<PartialAnalysis | null>(null);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>({
+    channelStrategy: "mono",
+    perChannel: false,
+    keyProfile: "krumhansl",
+    chromaMethod: "fft",
+    maxDuration: 0, // The whole file, unless a cap is picked
+  });
   const [fileName, setFileName] = useState<string | null>(null);
   const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [importedAnalysis, setImportedAnalysis] = useState<AnalysisFile | null>(null);
+  const [metadata, setMetadata] = useState<FileMetadata | null>(null);
+  const [useMetadataPrior, setUseMetadataPrior] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [selectedBPM, setSelectedBPM] = useState<number | null>(null);
@@ -104,9 +170,15 @@ export default function Home() {
   const [stopTrigger, setStopTrigger] = useState(0);
   const [volume, setVolume] = useState(1);
   const [bpmOffset, setBpmOffset] = useState(0);
-  const [useFlats, setUseFlats] = useState(false);
+  const [notation, setNotation] = useState<KeyNotation>("sharps");
+  const [selectedSegment, setSelectedSegment] = useState<number | null>(null);
+  const [selectedMeter, setSelectedMeter] = useState(0);
+  const [selectedKey, setSelectedKey] = useState<KeyCandidate | null>(null);
+  const [sliceSensitivity, setSliceSensitivity] = useState(0.5);
+  const [snapSlices, setSnapSlices] = useState(false);
   const [contentScale, setContentScale] = useState(1);
   const analysisBoxRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const baseWidth = 576; // max-w-xl = 36rem = 576px
 
   // Track resize and scale content
@@ -125,28 +197,146 @@ export default function Home() {
     return () => observer.disconnect();
   }, [status]);
 
-  const handleFile = useCallback(async (file: File) => {
+  // Cancel any running analysis on unmount
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // A saved analysis restores the results view as it was, without audio
+  const importAnalysis = useCallback(async (file: File) => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setProgress(null);
+    setPartial(null);
+    setSelectedSegment(null);
+    setSelectedMeter(0);
+    setSelectedKey(null);
+    setSelectedBPM(null);
+
+    try {
+      const analysis = parseAnalysisFile(await file.text());
+      setFileName(analysis.source.name);
+      setAudioFile(null);
+      setMetadata(null);
+      setImportedAnalysis(analysis);
+      setAnalysisSettings(analysis.settings);
+      setResult(analysis.result);
+      setError(null);
+      setStatus("done");
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : "Failed to read analysis file");
+      setStatus("error");
+    }
+  }, []);
+
+  const handleFile = useCallback(async (
+    file: File,
+    settings: AnalysisSettings = analysisSettings,
+    usePrior: boolean = useMetadataPrior
+  ) => {
+    if (isAnalysisFile(file)) {
+      importAnalysis(file);
+      return;
+    }
     if (!file.type.startsWith("audio/")) {
-      setError("Please drop an audio file");
+      setError("Please drop an audio file or a saved analysis");
       setStatus("error");
       return;
     }
 
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setFileName(file.name);
     setAudioFile(file);
+    setImportedAnalysis(null);
     setStatus("analyzing");
     setError(null);
     setResult(null);
+    setProgress(null);
+    setPartial(null);
+    setSelectedSegment(null);
+    setSelectedMeter(0);
+    setSelectedKey(null);
 
     try {
-      const analysis = await analyzeAudio(file);
+      // Tags and the file name are read whether or not they're used, to show next to the result
+      const fileMetadata = await readMetadata(file, file.name);
+      if (controller.signal.aborted) return;
+      setMetadata(fileMetadata);
+      const next = { ...settings, prior: usePrior ? metadataPrior(fileMetadata) : {} };
+      setAnalysisSettings(next);
+      const analysis = await analyzeAudio(file, {
+        ...next,
+        signal: controller.signal,
+        onProgress: setProgress,
+        onPartial: setPartial,
+      });
       setResult(analysis);
       setStatus("done");
     } catch (err) {
+      // A newer file or "Analyze another" took over; leave the state to it
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : "Failed to analyze audio");
       setStatus("error");
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
-  }, []);
+  }, [analysisSettings, useMetadataPrior, importAnalysis]);
+
+  // An imported analysis is saved again as it was loaded, since there's no audio to hash
+  const handleExport = useCallback(async () => {
+    if (!result) return;
+    try {
+      const analysis = audioFile
+        ? await createAnalysisFile(audioFile.name, await audioFile.arrayBuffer(), result, analysisSettings)
+        : importedAnalysis;
+      if (!analysis) return;
+      const blob = new Blob([serializeAnalysisFile(analysis)], { type: "application/json" });
+      downloadBlob(blob, analysisFileName(analysis.source.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export analysis");
+    }
+  }, [result, audioFile, analysisSettings, importedAnalysis]);
+
+  // Changing analyzer settings re-runs the analysis on the loaded file. A restored analysis
+  // has no audio to re-run, so it keeps the settings it was saved with.
+  const updateSettings = useCallback((changes: AnalysisSettings) => {
+    if (!audioFile) return;
+    const next = { ...analysisSettings, ...changes };
+    setAnalysisSettings(next);
+    handleFile(audioFile, next);
+  }, [analysisSettings, audioFile, handleFile]);
+
+  // Kept across files, like the other analyzer settings
+  const handleUsePriorChange = useCallback((usePrior: boolean) => {
+    setUseMetadataPrior(usePrior);
+    if (audioFile) handleFile(audioFile, analysisSettings, usePrior);
+  }, [analysisSettings, audioFile, handleFile]);
+
+  const handleChannelStrategyChange = useCallback((channelStrategy: ChannelStrategy) => {
+    updateSettings({ channelStrategy });
+  }, [updateSettings]);
+
+  const handlePerChannelChange = useCallback((perChannel: boolean) => {
+    updateSettings({ perChannel });
+  }, [updateSettings]);
+
+  const handleKeyProfileChange = useCallback((keyProfile: KeyProfileChoice) => {
+    updateSettings({ keyProfile });
+  }, [updateSettings]);
+
+  const handleChromaMethodChange = useCallback((chromaMethod: ChromaMethod) => {
+    updateSettings({ chromaMethod });
+  }, [updateSettings]);
+
+  const handleMaxDurationChange = useCallback((maxDuration: number) => {
+    updateSettings({ maxDuration });
+  }, [updateSettings]);
 
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
@@ -178,18 +368,29 @@ export default function Home() {
   );
 
   const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setStatus("idle");
     setResult(null);
     setError(null);
+    setProgress(null);
+    setPartial(null);
     setFileName(null);
     setAudioFile(null);
+    setImportedAnalysis(null);
+    setMetadata(null);
     setIsPlaying(false);
     setSelectedBPM(null);
     setRestartTrigger(0);
     setStopTrigger(0);
     setVolume(1);
     setBpmOffset(0);
-    setUseFlats(false);
+    setNotation("sharps");
+    setSelectedSegment(null);
+    setSelectedMeter(0);
+    setSelectedKey(null);
+    setSliceSensitivity(0.5);
+    setSnapSlices(false);
     setContentScale(1);
   }, []);
 
@@ -215,10 +416,59 @@ export default function Home() {
     setRestartTrigger(prev => prev + 1);
   }, []);
 
+  // Clicking the selected segment again goes back to the whole-file key
+  const handleSegmentSelect = useCallback((index: number) => {
+    setSelectedSegment(prev => (prev === index ? null : index));
+  }, []);
+
+  const handleMeterSelect = useCallback((index: number) => {
+    setSelectedMeter(index);
+    setRestartTrigger(prev => prev + 1);
+  }, []);
+
   const toggleNotation = useCallback(() => {
-    setUseFlats(prev => !prev);
+    setNotation(prev => KEY_NOTATIONS[(KEY_NOTATIONS.indexOf(prev) + 1) % KEY_NOTATIONS.length]);
   }, []);
 
+  const activeSegment = result && selectedSegment !== null ? result.keyTimeline[selectedSegment] : null;
+  const partialKey = partial?.keyCandidates[0];
+
+  // Slicing is re-run on the stored onsets, so moving the threshold doesn't re-analyze
+  const slices = useMemo(() => {
+    if (!result) return [];
+    return sliceAtOnsets(result.onsets, result.sourceDuration, {
+      sensitivity: sliceSensitivity,
+      snapTo: snapSlices ? result.beatGrid.beats : undefined,
+    });
+  }, [result, sliceSensitivity, snapSlices]);
+
+  const metadataComparison = useMemo(
+    () => (result && metadata ? compareWithMetadata(metadata, result) : null),
+    [result, metadata]
+  );
+
+  // The tempo as played, with the nudge: playback, tags and prepared file names all follow it
+  const playedBPM = (selectedBPM ?? result?.bpm ?? 0) + bpmOffset;
+
+  // Tags follow what's on screen: the tempo as played, and the chosen key or else the one shown
+  const tags = useMemo(() => {
+    const key = selectedKey ?? activeSegment?.candidates[0] ?? result?.keyCandidates[0];
+    if (!result || !key) return null;
+    const timeSignature = result.meterCandidates[selectedMeter]?.timeSignature ?? "4/4";
+    return tagValuesFor(result, playedBPM, key, timeSignature);
+  }, [result, selectedKey, activeSegment, playedBPM, selectedMeter]);
+
+  // Same name as the original; only the tags differ
+  const handleSaveTagged = useCallback(async () => {
+    if (!audioFile || !tags) return;
+    try {
+      const tagged = writeTags(await audioFile.arrayBuffer(), tags);
+      downloadBlob(new Blob([tagged], { type: audioFile.type }), audioFile.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to write tags");
+    }
+  }, [audioFile, tags]);
+
   return (
     <main className="min-h-screen flex flex-col items-center pt-16 pb-24 p-8 relative overflow-hidden">
       {/* Decorative leaves */}
@@ -234,9 +484,26 @@ export default function Home() {
         <h1 className="font-display text-5xl text-brown mb-3 tracking-wide">
           Sample Analyzer
         </h1>
-        <p className="text-lg text-brown/60 mb-3 max-w-md truncate text-center">
-          {fileName || "Drop an audio file to detect key & BPM"}
-        </p>
+        <div className="flex items-center gap-2 mb-3 max-w-xl">
+          <p className="text-lg text-brown/60 max-w-md truncate text-center">
+            {fileName || "Drop an audio file to detect key & BPM"}
+          </p>
+          {status === "done" && result && (
+            <span
+              className="shrink-0 px-2 py-0.5 rounded-full border border-olive/40 text-xs text-forest"
+              title={
+                result.sampleClass.category === "unknown"
+                  ? "Nothing loud or long enough to classify"
+                  : `Classified with ${Math.round(result.sampleClass.confidence * 100)}% confidence`
+              }
+            >
+              {SAMPLE_CATEGORY_LABELS[result.sampleClass.category]}
+              {result.sampleClass.category !== "unknown" && (
+                <span className="text-brown/40"> · {Math.round(result.sampleClass.confidence * 100)}%</span>
+              )}
+            </span>
+          )}
+        </div>
       </div>
 
       {/* Drop Zone wrapper - fixed height container */}
@@ -278,7 +545,7 @@ export default function Home() {
         <input
           id="file-input"
           type="file"
-          accept="audio/*"
+          accept="audio/*,.json,application/json"
           onChange={handleInputChange}
           className="hidden"
         />
@@ -299,6 +566,7 @@ export default function Home() {
               />
             </svg>
             <span className="text-xl text-brown/70">Drop audio file or click to browse</span>
+            <span className="text-xs text-brown/40">or a saved .analysis.json</span>
           </>
         )}
 
@@ -306,6 +574,32 @@ export default function Home() {
           <>
             <div className="w-12 h-12 border-4 border-olive border-t-transparent rounded-full animate-spin" />
             <span className="text-xl text-brown/70">Analyzing {fileName}...</span>
+            {progress && (
+              <div className="w-full max-w-xs flex flex-col items-center gap-1">
+                <div className="w-full h-1.5 rounded-full bg-brown/10 overflow-hidden">
+                  <div
+                    className="h-full bg-olive transition-all duration-150"
+                    style={{ width: `${progress.percent}%` }}
+                  />
+                </div>
+                <span className="text-xs text-brown/50">
+                  {STAGE_LABELS[progress.stage]} · {progress.percent}%
+                </span>
+              </div>
+            )}
+            {/* Running estimates while a long file streams through; they settle as it goes */}
+            {partial && (
+              <div className="flex flex-col items-center gap-0.5">
+                <span className="font-display text-3xl text-forest">
+                  {formatBPM(partial.bpm)} BPM
+                  {partialKey &&
+                    ` · ${formatKeyName(partialKey.key, partialKey.mode, notation === "flats" ? "flats" : "sharps")} ${partialKey.mode}`}
+                </span>
+                <span className="text-xs text-brown/50">
+                  So far, from {formatTime(partial.analyzed)} of {formatTime(partial.total)}
+                </span>
+              </div>
+            )}
           </>
         )}
 
@@ -315,11 +609,17 @@ export default function Home() {
             style={{ zoom: contentScale }}
             onClick={(e) => e.stopPropagation()}
           >
-            <div className="flex items-center justify-center gap-2 mb-6">
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-6">
               <BPMRadar
                 bpm={result.bpm}
                 confidence={result.bpmConfidence}
                 alternatives={result.bpmAlternatives}
+                tempoCurve={result.tempoCurve}
+                tempoDrift={result.tempoDrift}
+                tempoStability={result.tempoStability}
+                meterCandidates={result.meterCandidates}
+                selectedMeter={selectedMeter}
+                onMeterSelect={handleMeterSelect}
                 selectedBPM={selectedBPM ?? result.bpm}
                 onBPMSelect={handleBPMSelect}
                 onVolumeChange={handleVolumeChange}
@@ -327,24 +627,126 @@ export default function Home() {
                 onBPMOffsetRelease={handleBPMOffsetRelease}
               />
               <KeyRadar
-                candidates={result.keyCandidates}
+                candidates={activeSegment?.candidates ?? result.keyCandidates}
                 stopTrigger={stopTrigger}
-                useFlats={useFlats}
+                notation={notation}
                 onToggleNotation={toggleNotation}
+                tuningCents={result.tuningCents}
+                rootNote={result.rootNote}
+                selectedKey={selectedKey}
+                onKeySelect={setSelectedKey}
               />
+              <LoudnessMeter loudness={result.loudness} />
+            </div>
+
+            <div className="h-4 -mt-4 mb-2 text-center text-[10px] text-brown/50">
+              {activeSegment ? (
+                <>
+                  Key for {formatTime(activeSegment.start)}–{formatTime(activeSegment.end)} ·{" "}
+                  <button onClick={() => setSelectedSegment(null)} className="underline hover:text-forest">
+                    whole file
+                  </button>
+                </>
+              ) : result.keyModulations.length > 0 ? (
+                `${result.keyModulations.length} key change${result.keyModulations.length > 1 ? "s" : ""} · click a band to inspect`
+              ) : null}
             </div>
 
+            {metadata && metadataComparison && hasMetadata(metadata) && (
+              <MetadataPanel
+                metadata={metadata}
+                comparison={metadataComparison}
+                notation={notation}
+                usePrior={useMetadataPrior}
+                onUsePriorChange={handleUsePriorChange}
+              />
+            )}
+
             {audioFile && (
               <AudioPlayer
                 file={audioFile}
-                bpm={(selectedBPM ?? result.bpm) + bpmOffset}
+                bpm={playedBPM}
                 volume={volume}
                 onPlayingChange={setIsPlaying}
                 onStop={handleStop}
                 restartTrigger={restartTrigger}
+                keySegments={result.keyTimeline}
+                selectedSegment={selectedSegment}
+                onSegmentSelect={handleSegmentSelect}
+                beatGrid={result.beatGrid}
+                beatsPerBar={result.meterCandidates[selectedMeter]?.beatsPerBar}
+                tempoCurve={result.tempoCurve}
+                tempoStability={result.tempoStability}
+                chords={result.chords}
+                tuningCents={result.tuningCents}
+                slices={slices}
+                loop={result.loop}
+              />
+            )}
+
+            {audioFile && (
+              <SlicePanel
+                file={audioFile}
+                slices={slices}
+                sensitivity={sliceSensitivity}
+                snapToBeats={snapSlices}
+                onSensitivityChange={setSliceSensitivity}
+                onSnapChange={setSnapSlices}
               />
             )}
 
+            {audioFile && (
+              <PreparePanel file={audioFile} result={result} bpm={playedBPM} />
+            )}
+
+            <DurationPanel result={result} onMaxDurationChange={handleMaxDurationChange} />
+
+            <ChannelPanel
+              result={result}
+              perChannel={analysisSettings.perChannel ?? false}
+              onStrategyChange={handleChannelStrategyChange}
+              onPerChannelChange={handlePerChannelChange}
+            />
+
+            <KeyProfilePanel
+              result={result}
+              onProfileChange={handleKeyProfileChange}
+              onChromaMethodChange={handleChromaMethodChange}
+            />
+
+            {result.keyCandidates[0] && (
+              <CompatibleKeysPanel
+                candidate={activeSegment?.candidates[0] ?? result.keyCandidates[0]}
+                notation={notation}
+              />
+            )}
+
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-[10px] text-brown/50">
+              {importedAnalysis && !audioFile && (
+                <span>
+                  Saved analysis from {new Date(importedAnalysis.createdAt).toLocaleDateString()} · drop the audio
+                  to play it
+                </span>
+              )}
+              <button
+                onClick={handleExport}
+                className="px-2 py-0.5 rounded border border-brown/20 hover:border-forest hover:text-forest transition-colors"
+                title="Download the full analysis as versioned JSON"
+              >
+                Export analysis
+              </button>
+              {audioFile && tags && (
+                <button
+                  onClick={handleSaveTagged}
+                  className="px-2 py-0.5 rounded border border-brown/20 hover:border-forest hover:text-forest transition-colors"
+                  title="Download a copy with BPM and key written into its tags (MP3, WAV, AIFF)"
+                >
+                  Save tagged copy · {formatBPM(tags.bpm)} BPM · {formatTagKey(tags)}
+                </button>
+              )}
+              {error && <span className="text-orange">{error}</span>}
+            </div>
+
           </div>
         )}
 
@@ -364,8 +766,8 @@ export default function Home() {
         )}
       </div>
 
-        {/* Analyze another - outside the box */}
-        {status === "done" && (
+        {/* Analyze another - outside the box, also cancels a running analysis */}
+        {(status === "done" || status === "analyzing") && (
           <button
             onClick={reset}
             className="w-full max-w-xl text-xs text-forest hover:text-cream py-1.5 border border-olive rounded-lg hover:bg-olive transition-all mt-3 relative z-10"
@@ -0,0 +1,382 @@
+import { openAsBlob } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  AnalysisResult,
+  AnalysisSettings,
+  camelotCode,
+  ChannelStrategy,
+  CHANNEL_STRATEGIES,
+  ChromaMethod,
+  CHROMA_METHODS,
+  formatBPM,
+  formatChord,
+  KeyCandidate,
+  KeyProfileChoice,
+  KEY_PROFILE_CHOICES,
+  RootNote,
+  SAMPLE_CATEGORY_LABELS,
+  TempoKeyEstimate,
+} from "../lib/audio-analyzer";
+import {
+  compareWithMetadata,
+  FileMetadata,
+  MetadataAgreement,
+  METADATA_AGREEMENT_LABELS,
+  metadataPrior,
+  readMetadata,
+  taggedNoteName,
+} from "../lib/metadata-reader";
+import { decodePCMFrames, frameSize, PCM_HEADER_BYTES, readPCMLayout } from "../lib/pcm-decoder";
+import { createStreamingAnalysis } from "../lib/streaming-analysis";
+
+type OutputFormat = "table" | "json" | "csv";
+
+const OUTPUT_FORMATS: OutputFormat[] = ["table", "json", "csv"];
+const AUDIO_EXTENSIONS = new Set([".wav", ".wave", ".aif", ".aiff", ".aifc"]);
+const BLOCK_SECONDS = 10;
+
+const USAGE = `Usage: npm run analyze -- [options] <file|directory>...
+
+Detects BPM and key of WAV/AIFF files. Directories are searched recursively.
+
+Options:
+  -f, --format <table|json|csv>  Output format (default: table)
+  -c, --channels <strategy>      Channel strategy: mono, mid, side, left, right (default: mono)
+  -p, --per-channel              Also analyze each channel separately
+  -k, --key-profile <profile>    Key profile: ${KEY_PROFILE_CHOICES.join(", ")} (default: krumhansl)
+      --chroma <fft|hpcp>        Pitch-class front end for key detection (default: fft)
+  -m, --metadata                 Rank tempo and key candidates matching the file's tags or name first
+  -d, --max-duration <seconds>   Only analyze the start of each file, 0 for all of it (default: 0)
+  -h, --help                     Show this help`;
+
+interface FileReport {
+  file: string;
+  result?: AnalysisResult;
+  metadata?: FileMetadata;
+  error?: string;
+}
+
+async function collectFiles(target: string): Promise<string[]> {
+  const info = await stat(target);
+  if (!info.isDirectory()) return [target];
+
+  const entries = await readdir(target, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(target, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await collectFiles(fullPath)));
+    } else if (AUDIO_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+// The samples are read a block at a time and only up to the --max-duration cap, so memory
+// doesn't grow with the file. The result is the same as analyzePCM on the whole file.
+async function analyzeBlob(blob: Blob, settings: AnalysisSettings): Promise<AnalysisResult> {
+  const layout = readPCMLayout(await blob.slice(0, PCM_HEADER_BYTES).arrayBuffer(), blob.size);
+  const bytesPerFrame = frameSize(layout);
+  const { sampleRate, numChannels: channelCount, frameCount } = layout;
+  const analysis = createStreamingAnalysis({ sampleRate, channelCount, frameCount }, settings);
+  const blockFrames = Math.max(1, Math.round(BLOCK_SECONDS * sampleRate));
+
+  for (let start = 0; start < analysis.length; start += blockFrames) {
+    const offset = layout.dataOffset + start * bytesPerFrame;
+    const frames = Math.min(blockFrames, analysis.length - start);
+    const bytes = await blob.slice(offset, offset + frames * bytesPerFrame).arrayBuffer();
+    analysis.push(decodePCMFrames(bytes, layout).channels);
+  }
+  return analysis.finish();
+}
+
+async function analyzeFile(file: string, settings: AnalysisSettings, usePrior: boolean): Promise<FileReport> {
+  try {
+    const blob = await openAsBlob(file);
+    const metadata = await readMetadata(blob, path.basename(file));
+    const prior = usePrior ? metadataPrior(metadata) : {};
+    return { file, metadata, result: await analyzeBlob(blob, { ...settings, prior }) };
+  } catch (err) {
+    return { file, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function formatKey(candidate: KeyCandidate): string {
+  return `${candidate.key} ${candidate.mode}`;
+}
+
+function formatRootNote(root: RootNote): string {
+  return `${root.note}${root.octave} ${root.cents > 0 ? "+" : ""}${root.cents}¢ (root)`;
+}
+
+function formatMeter(result: AnalysisResult): string {
+  const top = result.meterCandidates[0];
+  return `${top.timeSignature} (${Math.round(top.confidence * 100)}%)`;
+}
+
+function formatDrift(result: AnalysisResult): string {
+  return result.tempoStability === "drifting" ? `drifting ±${result.tempoDrift}%` : "stable";
+}
+
+function formatSampleClass(result: AnalysisResult): string {
+  const { category, confidence } = result.sampleClass;
+  if (category === "unknown") return SAMPLE_CATEGORY_LABELS[category];
+  return `${SAMPLE_CATEGORY_LABELS[category]} (${Math.round(confidence * 100)}%)`;
+}
+
+function flagged(label: string, agreement: MetadataAgreement | null): string {
+  return agreement && agreement !== "agrees" ? `${label} (${METADATA_AGREEMENT_LABELS[agreement]})` : label;
+}
+
+// What the tags or file name claim, with anything that disagrees with the analysis marked
+function formatTagged(metadata: FileMetadata, result: AnalysisResult): string {
+  const comparison = compareWithMetadata(metadata, result);
+  const { tempo, key, rootNote } = metadata;
+  const parts = [
+    tempo ? flagged(`${formatBPM(tempo.bpm)} BPM`, comparison.tempo) : "",
+    key ? flagged(key.mode ? `${key.key} ${key.mode}` : key.key, comparison.key) : "",
+    rootNote ? flagged(`${taggedNoteName(rootNote.midi)} (root)`, comparison.rootNote) : "",
+  ];
+  return parts.filter(Boolean).join(", ") || "-";
+}
+
+function tableCells(
+  label: string,
+  estimate: TempoKeyEstimate,
+  type = "",
+  drift = "",
+  meter = "",
+  rootNote = "",
+  tagged = ""
+): string[] {
+  const [top, ...rest] = estimate.keyCandidates;
+  return [
+    label,
+    type,
+    formatBPM(estimate.bpm),
+    drift,
+    meter,
+    estimate.bpmConfidence.toFixed(2),
+    estimate.bpmAlternatives.map(formatBPM).join(", "),
+    rootNote || (top ? `${formatKey(top)} (${camelotCode(top.key, top.mode)})` : "-"),
+    rest.map((c) => `${formatKey(c)} (${c.confidence.toFixed(2)})`).join(", "),
+    tagged,
+  ];
+}
+
+function formatTable(reports: FileReport[]): string {
+  const header = ["File", "Type", "BPM", "Tempo", "Meter", "Conf", "Alternatives", "Key", "Key candidates", "Tagged"];
+  const rows = reports.flatMap(({ file, result, metadata, error }) => {
+    if (!result) return [[file, "-", "-", "-", "-", "-", "-", "-", `error: ${error}`, "-"]];
+    // Per-channel results go on indented rows under the file
+    const channelRows = (result.channelResults ?? []).map((channel) => tableCells(`  ${channel.channel}`, channel));
+    // Pitched one-shots show their root note in place of the key
+    const rootNote = result.rootNote ? formatRootNote(result.rootNote) : "";
+    const tagged = metadata ? formatTagged(metadata, result) : "-";
+    const cells = tableCells(
+      file,
+      result,
+      formatSampleClass(result),
+      formatDrift(result),
+      formatMeter(result),
+      rootNote,
+      tagged
+    );
+    return [cells, ...channelRows];
+  });
+
+  const widths = header.map((_, col) => Math.max(...[header, ...rows].map((row) => row[col].length)));
+  const formatRow = (row: string[]) => row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd();
+
+  return [formatRow(header), formatRow(widths.map((w) => "-".repeat(w))), ...rows.map(formatRow)].join("\n");
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvCells(
+  file: string,
+  channel: string,
+  estimate: TempoKeyEstimate,
+  result?: AnalysisResult,
+  metadata?: FileMetadata
+): (string | number)[] {
+  const top = estimate.keyCandidates[0];
+  const comparison = result && metadata ? compareWithMetadata(metadata, result) : null;
+  return [
+    file,
+    channel,
+    estimate.bpm,
+    result?.tempoStability ?? "",
+    result?.tempoDrift ?? "",
+    result?.meterCandidates[0].timeSignature ?? "",
+    estimate.bpmConfidence.toFixed(3),
+    estimate.bpmAlternatives.join(" "),
+    top?.key ?? "",
+    top?.mode ?? "",
+    top ? camelotCode(top.key, top.mode) : "",
+    top ? top.confidence.toFixed(3) : "",
+    estimate.keyCandidates.map((c) => `${c.key} ${c.mode}:${c.confidence.toFixed(3)}`).join(" "),
+    result?.keyProfile ?? "",
+    result?.chromaMethod ?? "",
+    result?.tuningCents ?? "",
+    result ? result.chords.map(formatChord).join(" ") : "",
+    result?.loudness.integrated ?? "",
+    result?.loudness.shortTermMax ?? "",
+    result?.loudness.range ?? "",
+    result?.loudness.truePeak ?? "",
+    result?.loudness.rms ?? "",
+    result?.loudness.crestFactor ?? "",
+    result?.sampleType ?? "",
+    result?.rootNote ? `${result.rootNote.note}${result.rootNote.octave}` : "",
+    result?.rootNote?.midi ?? "",
+    result?.rootNote?.cents ?? "",
+    result?.sampleClass.category ?? "",
+    result?.sampleClass.confidence ?? "",
+    result?.loop?.bars ?? "",
+    result?.loop?.overhang ?? "",
+    result?.loop ? `${result.loop.loopStart}-${result.loop.loopEnd}` : "",
+    metadata?.tempo?.bpm ?? "",
+    metadata?.tempo?.source ?? "",
+    metadata?.key ? `${metadata.key.key}${metadata.key.mode ? ` ${metadata.key.mode}` : ""}` : "",
+    metadata?.key?.source ?? "",
+    metadata?.rootNote?.midi ?? "",
+    metadata?.rootNote?.source ?? "",
+    comparison?.tempo ?? "",
+    comparison?.key ?? "",
+    comparison?.rootNote ?? "",
+    "",
+  ];
+}
+
+function formatCsv(reports: FileReport[]): string {
+  const header = [
+    "file", "channel", "bpm", "tempo_stability", "tempo_drift_percent", "time_signature", "bpm_confidence", "bpm_alternatives",
+    "key", "mode", "camelot", "key_confidence", "key_candidates", "key_profile", "chroma_method", "tuning_cents", "chords",
+    "integrated_lufs", "short_term_max_lufs", "loudness_range", "true_peak_dbtp", "rms_db", "crest_factor_db",
+    "sample_type", "root_note", "root_midi", "root_cents", "sample_class", "sample_class_confidence",
+    "loop_bars", "loop_overhang_seconds", "loop_points", "tagged_bpm", "tagged_bpm_source", "tagged_key",
+    "tagged_key_source", "tagged_root_midi", "tagged_root_source", "tempo_vs_tag", "key_vs_tag", "root_vs_tag", "error",
+  ];
+  // One row per file (channel = strategy used), plus one per channel when requested
+  const rows = reports.flatMap(({ file, result, metadata, error }) => {
+    if (!result) return [[file, ...new Array(header.length - 2).fill(""), error ?? ""]];
+    const channelRows = (result.channelResults ?? []).map((channel) => csvCells(file, channel.channel, channel));
+    return [csvCells(file, result.channelStrategy, result, result, metadata), ...channelRows];
+  });
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+function formatJson(reports: FileReport[]): string {
+  return JSON.stringify(
+    reports.map(({ file, result, metadata, error }) =>
+      result && metadata
+        ? { file, ...result, metadata, metadataComparison: compareWithMetadata(metadata, result) }
+        : { file, error }
+    ),
+    null,
+    2
+  );
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "table" },
+      channels: { type: "string", short: "c", default: "mono" },
+      "per-channel": { type: "boolean", short: "p", default: false },
+      "key-profile": { type: "string", short: "k", default: "krumhansl" },
+      chroma: { type: "string", default: "fft" },
+      metadata: { type: "boolean", short: "m", default: false },
+      "max-duration": { type: "string", short: "d", default: "0" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`Unknown format "${values.format}". Expected one of: ${OUTPUT_FORMATS.join(", ")}`);
+    return 1;
+  }
+
+  const channelStrategy = values.channels as ChannelStrategy;
+  if (!CHANNEL_STRATEGIES.includes(channelStrategy)) {
+    console.error(`Unknown channel strategy "${values.channels}". Expected one of: ${CHANNEL_STRATEGIES.join(", ")}`);
+    return 1;
+  }
+
+  const keyProfile = values["key-profile"] as KeyProfileChoice;
+  if (!KEY_PROFILE_CHOICES.includes(keyProfile)) {
+    console.error(`Unknown key profile "${values["key-profile"]}". Expected one of: ${KEY_PROFILE_CHOICES.join(", ")}`);
+    return 1;
+  }
+
+  const chromaMethod = values.chroma as ChromaMethod;
+  if (!CHROMA_METHODS.includes(chromaMethod)) {
+    console.error(`Unknown chroma method "${values.chroma}". Expected one of: ${CHROMA_METHODS.join(", ")}`);
+    return 1;
+  }
+
+  const maxDuration = Number(values["max-duration"]);
+  if (!(maxDuration >= 0)) {
+    console.error(`Invalid maximum duration "${values["max-duration"]}". Expected seconds, or 0 for the whole file`);
+    return 1;
+  }
+  const settings: AnalysisSettings = {
+    channelStrategy,
+    perChannel: values["per-channel"],
+    keyProfile,
+    chromaMethod,
+    maxDuration,
+  };
+
+  const files: string[] = [];
+  for (const target of positionals) {
+    try {
+      files.push(...(await collectFiles(target)));
+    } catch {
+      console.error(`Cannot read ${target}`);
+      return 1;
+    }
+  }
+
+  if (files.length === 0) {
+    console.error("No WAV/AIFF files found");
+    return 1;
+  }
+
+  // One file at a time: the analysis is CPU-bound, and memory stays at one file's working set
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    reports.push(await analyzeFile(file, settings, values.metadata));
+  }
+
+  const output = format === "json" ? formatJson(reports) : format === "csv" ? formatCsv(reports) : formatTable(reports);
+  console.log(output);
+
+  return reports.some((report) => report.error) ? 1 : 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,269 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import packageInfo from "../../package.json";
+import {
+  BenchmarkReference,
+  CaseScore,
+  GroupScore,
+  KEY_ERROR_TYPES,
+  scoreCase,
+  summarizeScores,
+} from "../lib/accuracy";
+import {
+  analyzePCM,
+  AnalysisSettings,
+  ChromaMethod,
+  CHROMA_METHODS,
+  formatBPM,
+  KeyProfileChoice,
+  KEY_PROFILE_CHOICES,
+  PCMInput,
+} from "../lib/audio-analyzer";
+import { parseKey } from "../lib/metadata-reader";
+import { decodePCM } from "../lib/pcm-decoder";
+import { syntheticCases } from "../lib/synthetic-signals";
+
+type OutputFormat = "table" | "json";
+
+const OUTPUT_FORMATS: OutputFormat[] = ["table", "json"];
+// Scores may drop this much against a baseline before it counts as a regression
+const BASELINE_TOLERANCE = 0.001;
+
+const USAGE = `Usage: npm run bench -- [options] [annotations.csv]...
+
+Scores tempo and key detection against synthetic signals with known answers, and against
+any annotated corpora given. Tempo is scored as MIREX Accuracy1 (within 4%) and Accuracy2
+(also at 2x, 1/2, 3x or 1/3), keys with the MIREX weighted score. See docs/benchmark.md.
+
+An annotation file is a CSV with the header "file,bpm,key". Paths are relative to the CSV;
+either value may be left empty.
+
+Options:
+  -f, --format <table|json>      Output format (default: table)
+  -b, --baseline <report.json>   Compare with a saved JSON report; exits 1 if any score dropped
+  -s, --skip-synthetic           Only score the annotated corpora
+  -v, --verbose                  List every case that missed
+  -k, --key-profile <profile>    Key profile: ${KEY_PROFILE_CHOICES.join(", ")} (default: krumhansl)
+      --chroma <fft|hpcp>        Pitch-class front end for key detection (default: fft)
+  -h, --help                     Show this help`;
+
+interface BenchmarkCase {
+  name: string;
+  group: string;
+  reference: BenchmarkReference;
+  load: () => Promise<PCMInput>;
+}
+
+interface BenchmarkReport {
+  analyzer: string;
+  settings: AnalysisSettings;
+  groups: GroupScore[];
+  cases: CaseScore[];
+}
+
+// Quoted fields may hold commas and doubled quotes, as the analyze CLI writes them
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  return [...cells, cell].map((c) => c.trim());
+}
+
+// Each annotation file is its own group, named after the file
+async function readAnnotations(csvPath: string): Promise<BenchmarkCase[]> {
+  const lines = (await readFile(csvPath, "utf8")).split(/\r?\n/);
+  const header = parseCsvLine(lines[0] ?? "").map((h) => h.toLowerCase());
+  const [fileColumn, bpmColumn, keyColumn] = ["file", "bpm", "key"].map((name) => header.indexOf(name));
+  if (fileColumn < 0) throw new Error(`${csvPath}: expected a header with "file", "bpm" and "key" columns`);
+
+  const group = path.basename(csvPath, path.extname(csvPath));
+  const cases: BenchmarkCase[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (!line.trim()) return;
+    const cells = parseCsvLine(line);
+    const where = `${csvPath}:${i + 2}`;
+    const reference: BenchmarkReference = {};
+
+    const bpm = bpmColumn >= 0 ? cells[bpmColumn] : "";
+    if (bpm) {
+      reference.bpm = Number(bpm);
+      if (!(reference.bpm > 0)) throw new Error(`${where}: invalid BPM "${bpm}"`);
+    }
+    const keyText = keyColumn >= 0 ? cells[keyColumn] : "";
+    if (keyText) {
+      const key = parseKey(keyText);
+      if (!key?.mode) throw new Error(`${where}: unknown key "${keyText}"`);
+      reference.key = { key: key.key, mode: key.mode };
+    }
+
+    const file = path.resolve(path.dirname(csvPath), cells[fileColumn]);
+    cases.push({ name: cells[fileColumn], group, reference, load: async () => decodePCM(await readFile(file)) });
+  });
+  return cases;
+}
+
+function percent(value: number | null): string {
+  return value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatTable(report: BenchmarkReport, verbose: boolean): string {
+  const header = ["Group", "Tempo cases", "Accuracy1", "Accuracy2", "Key cases", "Key score", ...KEY_ERROR_TYPES];
+  const rows = report.groups.map((g) => [
+    g.group,
+    String(g.tempoCases),
+    percent(g.accuracy1),
+    percent(g.accuracy2),
+    String(g.keyCases),
+    percent(g.keyScore),
+    ...KEY_ERROR_TYPES.map((type) => String(g.keyErrors[type])),
+  ]);
+  const widths = header.map((_, col) => Math.max(...[header, ...rows].map((row) => row[col].length)));
+  const formatRow = (row: string[]) => row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd();
+  const lines = [formatRow(header), formatRow(widths.map((w) => "-".repeat(w))), ...rows.map(formatRow)];
+
+  if (verbose) {
+    const misses = report.cases.flatMap(({ name, tempo, key }) => [
+      ...(tempo && !tempo.accuracy1
+        ? [`${name}: ${formatBPM(tempo.estimated)} BPM, expected ${formatBPM(tempo.reference)}${tempo.accuracy2 ? " (octave error)" : ""}`]
+        : []),
+      ...(key && key.error !== "correct"
+        ? [`${name}: ${key.estimated ? `${key.estimated.key} ${key.estimated.mode}` : "no key"}, expected ${key.reference.key} ${key.reference.mode} (${key.error})`]
+        : []),
+    ]);
+    lines.push("", misses.length > 0 ? "Misses:" : "No misses", ...misses.map((miss) => `  ${miss}`));
+  }
+  return lines.join("\n");
+}
+
+// Every score of every group the baseline also has; new groups can't regress
+function findRegressions(report: BenchmarkReport, baseline: BenchmarkReport): string[] {
+  const regressions: string[] = [];
+  for (const before of baseline.groups) {
+    const after = report.groups.find((g) => g.group === before.group);
+    if (!after) continue;
+    for (const metric of ["accuracy1", "accuracy2", "keyScore"] as const) {
+      const [was, now] = [before[metric], after[metric]];
+      if (was !== null && now !== null && now < was - BASELINE_TOLERANCE) {
+        regressions.push(`${before.group} ${metric}: ${percent(was)} -> ${percent(now)}`);
+      }
+    }
+  }
+  return regressions;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "table" },
+      baseline: { type: "string", short: "b" },
+      "skip-synthetic": { type: "boolean", short: "s", default: false },
+      verbose: { type: "boolean", short: "v", default: false },
+      "key-profile": { type: "string", short: "k", default: "krumhansl" },
+      chroma: { type: "string", default: "fft" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`Unknown format "${values.format}". Expected one of: ${OUTPUT_FORMATS.join(", ")}`);
+    return 1;
+  }
+
+  const keyProfile = values["key-profile"] as KeyProfileChoice;
+  if (!KEY_PROFILE_CHOICES.includes(keyProfile)) {
+    console.error(`Unknown key profile "${values["key-profile"]}". Expected one of: ${KEY_PROFILE_CHOICES.join(", ")}`);
+    return 1;
+  }
+
+  const chromaMethod = values.chroma as ChromaMethod;
+  if (!CHROMA_METHODS.includes(chromaMethod)) {
+    console.error(`Unknown chroma method "${values.chroma}". Expected one of: ${CHROMA_METHODS.join(", ")}`);
+    return 1;
+  }
+  const settings: AnalysisSettings = { keyProfile, chromaMethod };
+
+  let baseline: BenchmarkReport | null = null;
+  if (values.baseline) {
+    try {
+      baseline = JSON.parse(await readFile(values.baseline, "utf8"));
+    } catch {
+      console.error(`Cannot read baseline ${values.baseline}`);
+      return 1;
+    }
+  }
+
+  const cases: BenchmarkCase[] = values["skip-synthetic"]
+    ? []
+    : syntheticCases().map(({ render, ...rest }) => ({ ...rest, load: async () => render() }));
+  for (const csv of positionals) {
+    cases.push(...(await readAnnotations(csv)));
+  }
+  if (cases.length === 0) {
+    console.error("Nothing to score: give an annotation file or leave out --skip-synthetic");
+    return 1;
+  }
+
+  // Sequential on purpose, as in the analyze CLI; progress goes to stderr so JSON stays clean
+  const scores: CaseScore[] = [];
+  for (const [i, c] of cases.entries()) {
+    if (process.stderr.isTTY) process.stderr.write(`\r[${i + 1}/${cases.length}] ${c.name}\x1b[K`);
+    try {
+      scores.push(scoreCase(c.name, c.group, c.reference, analyzePCM(await c.load(), settings)));
+    } catch (err) {
+      if (process.stderr.isTTY) process.stderr.write("\n");
+      console.error(`${c.name}: ${err instanceof Error ? err.message : err}`);
+      return 1;
+    }
+  }
+  if (process.stderr.isTTY) process.stderr.write("\r\x1b[K");
+
+  const report: BenchmarkReport = { analyzer: packageInfo.version, settings, groups: summarizeScores(scores), cases: scores };
+  console.log(format === "json" ? JSON.stringify(report, null, 2) : formatTable(report, values.verbose));
+
+  if (!baseline) return 0;
+  const regressions = findRegressions(report, baseline);
+  if (regressions.length > 0) {
+    console.error(`Regressions against ${values.baseline}:\n${regressions.map((r) => `  ${r}`).join("\n")}`);
+    return 1;
+  }
+  console.error(`No regressions against ${values.baseline}`);
+  return 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  }
+);
@@ -1,6 +1,20 @@
 "use client";
 
 import { useRef, useState, useCallback, useEffect } from "react";
+import {
+  BeatGrid,
+  Chord,
+  chordPitchClasses,
+  formatBPM,
+  formatChord,
+  KeySegment,
+  KEY_NAMES,
+  LoopCheck,
+  Slice,
+  TempoPoint,
+  TempoStability,
+  tuningReference,
+} from "@/lib/audio-analyzer";
 
 interface AudioPlayerProps {
   file: File;
@@ -9,27 +23,101 @@ interface AudioPlayerProps {
   onPlayingChange?: (isPlaying: boolean) => void;
   onStop?: () => void;
   restartTrigger?: number; // Increment to restart with metronome
+  keySegments?: KeySegment[];
+  selectedSegment?: number | null;
+  onSegmentSelect?: (index: number) => void;
+  beatGrid?: BeatGrid;
+  beatsPerBar?: number; // Overrides the grid's meter, e.g. when another meter candidate is picked
+  tempoCurve?: TempoPoint[];
+  tempoStability?: TempoStability;
+  chords?: Chord[];
+  tuningCents?: number; // Chords are voiced at the sample's tuning
+  slices?: Slice[];
+  loop?: LoopCheck | null; // Suggested loop points, which playback can use instead of the whole buffer
 }
 
-export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, restartTrigger }: AudioPlayerProps) {
+// Clicks are scheduled on the audio clock slightly ahead of time, so timer jitter
+// doesn't pull the metronome off the grid
+const SCHEDULE_AHEAD = 0.1; // seconds
+const SCHEDULER_INTERVAL_MS = 25;
+
+// Files up to this size are decoded whole, for sample-accurate loop points and the waveform.
+// Longer ones (DJ mixes) stream from disk through a media element, so the main thread
+// never holds them decoded; they loop whole and show no waveform.
+const DECODE_LIMIT_BYTES = 32 * 1024 * 1024;
+
+// Chord voicing: the root as bass in octave 3, the chord in root position an octave up
+const CHORD_BASS_MIDI = 48;
+const CHORD_DURATION = 1.5; // seconds
+
+// Hue follows the circle of fifths (minor keys share their relative major's hue), so
+// neighbouring keys get neighbouring colours
+function keyColor(key: string, minor: boolean, alpha: number): string {
+  const pitchClass = KEY_NAMES.indexOf(key);
+  const majorPitchClass = minor ? (pitchClass + 3) % 12 : pitchClass;
+  const hue = ((majorPitchClass * 7) % 12) * 30;
+  const lightness = minor ? 38 : 55;
+  return `hsla(${hue}, 45%, ${lightness}%, ${alpha})`;
+}
+
+function segmentColor(segment: KeySegment, alpha: number): string {
+  return keyColor(segment.key, segment.mode === "minor", alpha);
+}
+
+function chordColor(chord: Chord, alpha: number): string {
+  return keyColor(chord.root, chord.quality === "minor" || chord.quality === "dim", alpha);
+}
+
+export function AudioPlayer({
+  file,
+  bpm,
+  volume = 1,
+  onPlayingChange,
+  onStop,
+  restartTrigger,
+  keySegments,
+  selectedSegment,
+  onSegmentSelect,
+  beatGrid,
+  beatsPerBar = beatGrid?.beatsPerBar ?? 4,
+  tempoCurve,
+  tempoStability,
+  chords,
+  tuningCents = 0,
+  slices,
+  loop,
+}: AudioPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [metronomeOn, setMetronomeOn] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [activeChord, setActiveChord] = useState<number | null>(null);
+  const [useLoopPoints, setUseLoopPoints] = useState(true);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioBufferRef = useRef<AudioBuffer | null>(null);
+  const mediaRef = useRef<HTMLAudioElement | null>(null); // Instead of the buffer, for long files
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
   const gainRef = useRef<GainNode | null>(null);
   const metronomeIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<number>(0);
+  const nextClickTimeRef = useRef<number>(0);
+  const beatInBarRef = useRef<number>(0);
   const animationFrameRef = useRef<number | null>(null);
+  const chordTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Read at playback start, so switching loop modes doesn't re-create the playback callbacks
+  const loopRegionRef = useRef<{ start: number; end: number } | null>(null);
 
   // Notify parent of playing state changes
   useEffect(() => {
     onPlayingChange?.(isPlaying);
   }, [isPlaying, onPlayingChange]);
 
+  useEffect(() => {
+    loopRegionRef.current = loop && useLoopPoints ? { start: loop.loopStart, end: loop.loopEnd } : null;
+  }, [loop, useLoopPoints]);
+
   // Update volume when it changes
   useEffect(() => {
     if (gainRef.current && audioContextRef.current) {
@@ -37,15 +125,29 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
     }
   }, [volume]);
 
-  // Initialize audio context and decode file
+  // Initialize audio context, then decode the file or open it for streaming
   useEffect(() => {
+    const ctx = new AudioContext();
+    audioContextRef.current = ctx;
+    const gain = ctx.createGain();
+    gain.connect(ctx.destination);
+    gainRef.current = gain;
+    let mediaUrl: string | null = null;
+
     const init = async () => {
-      audioContextRef.current = new AudioContext();
-      const arrayBuffer = await file.arrayBuffer();
-      audioBufferRef.current = await audioContextRef.current.decodeAudioData(arrayBuffer);
+      if (file.size > DECODE_LIMIT_BYTES) {
+        mediaUrl = URL.createObjectURL(file);
+        const media = new Audio(mediaUrl);
+        media.loop = true;
+        media.addEventListener("loadedmetadata", () => setDuration(media.duration));
+        ctx.createMediaElementSource(media).connect(gain);
+        mediaRef.current = media;
+        return;
+      }
 
-      gainRef.current = audioContextRef.current.createGain();
-      gainRef.current.connect(audioContextRef.current.destination);
+      const arrayBuffer = await file.arrayBuffer();
+      audioBufferRef.current = await ctx.decodeAudioData(arrayBuffer);
+      setDuration(audioBufferRef.current.duration);
 
       // Draw waveform
       drawWaveform();
@@ -56,7 +158,12 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
     return () => {
       if (metronomeIntervalRef.current) clearInterval(metronomeIntervalRef.current);
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-      if (audioContextRef.current) audioContextRef.current.close();
+      if (chordTimeoutRef.current) clearTimeout(chordTimeoutRef.current);
+      mediaRef.current?.pause();
+      mediaRef.current = null;
+      audioBufferRef.current = null;
+      if (mediaUrl) URL.revokeObjectURL(mediaUrl);
+      ctx.close();
     };
   }, [file]);
 
@@ -111,12 +218,21 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
   }, []);
 
   const updateProgress = useCallback(() => {
-    if (!audioContextRef.current || !audioBufferRef.current || !isPlaying) return;
+    if (!audioContextRef.current || !isPlaying) return;
+
+    const media = mediaRef.current;
+    if (media) {
+      if (media.duration > 0) setProgress(media.currentTime / media.duration);
+      animationFrameRef.current = requestAnimationFrame(updateProgress);
+      return;
+    }
+    if (!audioBufferRef.current) return;
 
     const elapsed = audioContextRef.current.currentTime - startTimeRef.current;
     const duration = audioBufferRef.current.duration;
-    const prog = (elapsed % duration) / duration;
-    setProgress(prog);
+    const region = loopRegionRef.current ?? { start: 0, end: duration };
+    const position = region.start + (elapsed % (region.end - region.start));
+    setProgress(position / duration);
 
     animationFrameRef.current = requestAnimationFrame(updateProgress);
   }, [isPlaying]);
@@ -131,30 +247,52 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
     }
   }, [isPlaying, updateProgress]);
 
-  const playSample = useCallback(() => {
-    if (!audioContextRef.current || !audioBufferRef.current || !gainRef.current) return;
-
-    if (audioContextRef.current.state === "suspended") {
-      audioContextRef.current.resume();
+  // Starts the buffer looping, between the loop points when they're in use. A streamed file
+  // starts at the loop start but loops whole.
+  const startSource = useCallback((ctx: AudioContext, buffer: AudioBuffer | null, destination: AudioNode) => {
+    const region = loopRegionRef.current;
+    const media = mediaRef.current;
+    if (!buffer) {
+      if (!media) return;
+      media.currentTime = region?.start ?? 0;
+      media.play().catch(() => setIsPlaying(false));
+      startTimeRef.current = ctx.currentTime;
+      setIsPlaying(true);
+      return;
     }
 
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = audioBufferRef.current;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
     source.loop = true;
-    source.connect(gainRef.current);
-    source.start();
+    if (region) {
+      source.loopStart = region.start;
+      source.loopEnd = region.end;
+    }
+    source.connect(destination);
+    source.start(0, region?.start ?? 0);
 
-    startTimeRef.current = audioContextRef.current.currentTime;
+    startTimeRef.current = ctx.currentTime;
     sourceRef.current = source;
     setIsPlaying(true);
   }, []);
 
+  const playSample = useCallback(() => {
+    if (!audioContextRef.current || !gainRef.current) return;
+
+    if (audioContextRef.current.state === "suspended") {
+      audioContextRef.current.resume();
+    }
+
+    startSource(audioContextRef.current, audioBufferRef.current, gainRef.current);
+  }, [startSource]);
+
   const stopSample = useCallback(() => {
     // Stop the audio source
     if (sourceRef.current) {
       try { sourceRef.current.stop(); } catch {}
       sourceRef.current = null;
     }
+    mediaRef.current?.pause();
     // Stop the metronome
     if (metronomeIntervalRef.current) {
       clearInterval(metronomeIntervalRef.current);
@@ -174,24 +312,59 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
     }
   }, [isPlaying, playSample, stopSample]);
 
-  const playClick = useCallback(() => {
+  const playClick = useCallback((time: number, accent: boolean) => {
     if (!audioContextRef.current) return;
 
     const ctx = audioContextRef.current;
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
 
-    osc.frequency.value = 1000;
+    // First beat of the bar: higher and louder
+    osc.frequency.value = accent ? 1500 : 1000;
     osc.type = "sine";
-    gain.gain.setValueAtTime(0.3, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.05);
+    gain.gain.setValueAtTime(accent ? 0.45 : 0.3, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
 
     osc.connect(gain);
     gain.connect(ctx.destination);
-    osc.start();
-    osc.stop(ctx.currentTime + 0.05);
+    osc.start(time);
+    osc.stop(time + 0.05);
   }, []);
 
+  const playChord = useCallback((index: number) => {
+    const ctx = audioContextRef.current;
+    const chord = chords?.[index];
+    if (!ctx || !chord) return;
+
+    if (ctx.state === "suspended") {
+      ctx.resume();
+    }
+
+    const [root, ...rest] = chordPitchClasses(chord);
+    const rootMidi = CHORD_BASS_MIDI + root;
+    const notes = [rootMidi, rootMidi + 12, ...rest.map((pc) => rootMidi + 12 + ((pc - root + 12) % 12))];
+    const reference = tuningReference(tuningCents);
+    const now = ctx.currentTime;
+
+    for (const midi of notes) {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = "triangle";
+      osc.frequency.value = reference * 2 ** ((midi - 69) / 12);
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(0.12, now + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.001, now + CHORD_DURATION);
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.start(now);
+      osc.stop(now + CHORD_DURATION);
+    }
+
+    setActiveChord(index);
+    if (chordTimeoutRef.current) clearTimeout(chordTimeoutRef.current);
+    chordTimeoutRef.current = setTimeout(() => setActiveChord(null), CHORD_DURATION * 1000);
+  }, [chords, tuningCents]);
+
   const startWithMetronome = useCallback((tempo: number) => {
     if (audioContextRef.current?.state === "suspended") {
       audioContextRef.current.resume();
@@ -208,22 +381,36 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
       try { sourceRef.current.stop(); } catch {}
     }
 
-    if (audioBufferRef.current && gainRef.current && audioContextRef.current) {
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioBufferRef.current;
-      source.loop = true;
-      source.connect(gainRef.current);
-      source.start();
-      startTimeRef.current = audioContextRef.current.currentTime;
-      sourceRef.current = source;
-      setIsPlaying(true);
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+
+    if (gainRef.current) {
+      startSource(ctx, audioBufferRef.current, gainRef.current);
     }
 
-    const intervalMs = (60 / tempo) * 1000;
-    playClick();
-    metronomeIntervalRef.current = setInterval(playClick, intervalMs);
+    // Lock the clicks to the detected grid: the first click lands on the beat phase of the
+    // first downbeat, so loops that don't start on a beat stay in time. Playback may start
+    // at a loop point rather than 0; the first click is the first beat after it.
+    const interval = 60 / tempo;
+    const offset = loopRegionRef.current?.start ?? 0;
+    const downbeat = beatGrid?.firstDownbeat ?? 0;
+    const firstBeat = Math.ceil((offset - downbeat) / interval - 1e-6);
+    nextClickTimeRef.current = startTimeRef.current + downbeat + firstBeat * interval - offset;
+    // Clicks before the first downbeat are the tail of a bar
+    beatInBarRef.current = ((firstBeat % beatsPerBar) + beatsPerBar) % beatsPerBar;
+
+    const scheduleClicks = () => {
+      while (nextClickTimeRef.current < ctx.currentTime + SCHEDULE_AHEAD) {
+        playClick(nextClickTimeRef.current, beatInBarRef.current === 0);
+        nextClickTimeRef.current += interval;
+        beatInBarRef.current = (beatInBarRef.current + 1) % beatsPerBar;
+      }
+    };
+
+    scheduleClicks();
+    metronomeIntervalRef.current = setInterval(scheduleClicks, SCHEDULER_INTERVAL_MS);
     setMetronomeOn(true);
-  }, [playClick]);
+  }, [playClick, startSource, beatGrid, beatsPerBar]);
 
   const toggleMetronome = useCallback(() => {
     if (metronomeOn) {
@@ -237,6 +424,12 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
     }
   }, [metronomeOn, bpm, startWithMetronome]);
 
+  // Takes effect from the next start, so playback stops when switching
+  const toggleLoopPoints = useCallback(() => {
+    if (isPlaying) stopSample();
+    setUseLoopPoints((prev) => !prev);
+  }, [isPlaying, stopSample]);
+
   // Restart with metronome when triggered from BPM selection
   useEffect(() => {
     if (restartTrigger && restartTrigger > 0) {
@@ -287,7 +480,7 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
               style={metronomeOn ? {
                 animation: `metronome-pulse ${60 / bpm}s ease-in-out infinite`,
               } : undefined}
-              title={`Metronome (${bpm} BPM)`}
+              title={`Metronome (${formatBPM(bpm)} BPM)`}
             >
               {/* Metronome icon */}
               <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
@@ -296,28 +489,182 @@ export function AudioPlayer({ file, bpm, volume = 1, onPlayingChange, onStop, re
                 <rect x="11" y="6" width="2" height="8" rx="0.5" transform="rotate(-15 12 10)" />
               </svg>
             </button>
-            <span className="text-[10px] text-brown/50 mt-1">{bpm} BPM</span>
+            <span className="text-[10px] text-brown/50 mt-1">{formatBPM(bpm)} BPM</span>
           </div>
         </div>
 
-        {/* Waveform */}
-        <div className="relative flex-1 h-11 rounded-lg overflow-hidden bg-brown/10">
-          <canvas
-            ref={canvasRef}
-            width={600}
-            height={44}
-            className="w-full h-full"
-          />
-          {/* Progress overlay */}
-          <div
-            className="absolute top-0 left-0 h-full bg-olive/30 pointer-events-none"
-            style={{ width: `${progress * 100}%` }}
-          />
-          {/* Playhead */}
-          <div
-            className="absolute top-0 h-full w-0.5 bg-orange pointer-events-none"
-            style={{ left: `${progress * 100}%` }}
-          />
+        <div className="flex-1 flex flex-col gap-1">
+          {/* Waveform */}
+          <div className="relative h-11 rounded-lg overflow-hidden bg-brown/10">
+            {/* Key segments, clickable to inspect that segment's candidates */}
+            {keySegments && duration > 0 && keySegments.map((segment, i) => (
+              <button
+                key={i}
+                onClick={() => onSegmentSelect?.(i)}
+                className="absolute top-0 h-full border-r border-cream/40 last:border-r-0"
+                style={{
+                  left: `${(segment.start / duration) * 100}%`,
+                  width: `${((segment.end - segment.start) / duration) * 100}%`,
+                  backgroundColor: segmentColor(segment, selectedSegment === i ? 0.55 : 0.25),
+                }}
+                title={`${segment.key} ${segment.mode} (${Math.round(segment.confidence * 100)}%)`}
+              />
+            ))}
+            {/* Beat grid: bar lines stronger than beat lines */}
+            {beatGrid && duration > 0 && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${duration} 1`}
+                preserveAspectRatio="none"
+              >
+                {(() => {
+                  const downbeatIndex = Math.max(0, beatGrid.beats.indexOf(beatGrid.firstDownbeat));
+                  return beatGrid.beats.map((time, i) => {
+                    const isBar = i >= downbeatIndex && (i - downbeatIndex) % beatsPerBar === 0;
+                    return (
+                      <line
+                        key={i}
+                        x1={time}
+                        x2={time}
+                        y1={isBar ? 0 : 0.7}
+                        y2={1}
+                        stroke={isBar ? "#C45C26" : "#3D2B1F"}
+                        strokeOpacity={isBar ? 0.5 : 0.25}
+                        strokeWidth={1}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    );
+                  });
+                })()}
+              </svg>
+            )}
+            {/* Local tempo curve, only drawn when the tempo drifts */}
+            {tempoStability === "drifting" && tempoCurve && tempoCurve.length > 1 && duration > 0 && (() => {
+              const values = tempoCurve.map(p => p.bpm);
+              // Reduced rather than spread: a long mix has thousands of points
+              const min = values.reduce((a, b) => Math.min(a, b));
+              const range = values.reduce((a, b) => Math.max(a, b)) - min || 1;
+              return (
+                <svg
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  viewBox={`0 0 ${duration} 1`}
+                  preserveAspectRatio="none"
+                >
+                  <polyline
+                    points={tempoCurve.map(p => `${p.time},${0.85 - ((p.bpm - min) / range) * 0.7}`).join(" ")}
+                    fill="none"
+                    stroke="#C45C26"
+                    strokeWidth={1.5}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+              );
+            })()}
+            {/* Slice cuts, numbered like the exported files */}
+            {slices && slices.length > 1 && duration > 0 && (
+              <>
+                <svg
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  viewBox={`0 0 ${duration} 1`}
+                  preserveAspectRatio="none"
+                >
+                  {slices.slice(1).map((slice, i) => (
+                    <line
+                      key={i}
+                      x1={slice.start}
+                      x2={slice.start}
+                      y1={0}
+                      y2={1}
+                      stroke="#BC6C25"
+                      strokeOpacity={0.8}
+                      strokeWidth={1}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ))}
+                </svg>
+                {slices.map((slice, i) => (
+                  <span
+                    key={i}
+                    className="absolute top-0 pl-0.5 text-[8px] leading-none text-[#BC6C25] pointer-events-none"
+                    style={{ left: `${(slice.start / duration) * 100}%` }}
+                  >
+                    {i + 1}
+                  </span>
+                ))}
+              </>
+            )}
+            <canvas
+              ref={canvasRef}
+              width={600}
+              height={44}
+              className="relative w-full h-full pointer-events-none"
+            />
+            {/* Outside the loop points, dimmed while they're in use */}
+            {loop && useLoopPoints && duration > 0 && (
+              <>
+                <div
+                  className="absolute top-0 left-0 h-full bg-cream/60 pointer-events-none"
+                  style={{ width: `${(loop.loopStart / duration) * 100}%` }}
+                />
+                <div
+                  className="absolute top-0 right-0 h-full bg-cream/60 pointer-events-none"
+                  style={{ width: `${Math.max(0, (duration - loop.loopEnd) / duration) * 100}%` }}
+                />
+              </>
+            )}
+            {/* Progress overlay */}
+            <div
+              className="absolute top-0 left-0 h-full bg-olive/30 pointer-events-none"
+              style={{ width: `${progress * 100}%` }}
+            />
+            {/* Playhead */}
+            <div
+              className="absolute top-0 h-full w-0.5 bg-orange pointer-events-none"
+              style={{ left: `${progress * 100}%` }}
+            />
+          </div>
+
+          {/* Chord lane, clickable to hear each chord */}
+          {chords && chords.length > 0 && duration > 0 && (
+            <div className="relative h-4 rounded overflow-hidden">
+              {chords.map((chord, i) => (
+                <button
+                  key={i}
+                  onClick={() => playChord(i)}
+                  className={`absolute top-0 h-full px-0.5 border-r border-cream/60 overflow-hidden text-[9px] leading-4 text-left truncate transition-colors ${
+                    activeChord === i ? "text-orange" : "text-brown/80 hover:text-forest"
+                  }`}
+                  style={{
+                    left: `${(chord.start / duration) * 100}%`,
+                    width: `${((chord.end - chord.start) / duration) * 100}%`,
+                    backgroundColor: chordColor(chord, activeChord === i ? 0.45 : 0.15 + 0.25 * chord.confidence),
+                  }}
+                  title={`${formatChord(chord)} (${Math.round(chord.confidence * 100)}%)`}
+                >
+                  {formatChord(chord)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Loop length check and loop mode */}
+          {loop && (
+            <div className="flex items-center justify-between text-[10px] text-brown/60">
+              <span className={loop.wholeBars ? "" : "text-orange"}>
+                {loop.bars} bar{loop.bars === 1 ? "" : "s"}
+                {loop.wholeBars
+                  ? " · whole bars"
+                  : ` · ${loop.overhang > 0 ? "+" : "−"}${Math.round(Math.abs(loop.overhang) * 1000)} ms ${loop.overhang > 0 ? "overhang" : "short"}`}
+              </span>
+              <button
+                onClick={toggleLoopPoints}
+                className="px-1.5 rounded border border-brown/20 hover:border-forest hover:text-forest transition-colors"
+                title={`Loop points: ${loop.loopStart.toFixed(3)}–${loop.loopEnd.toFixed(3)}s`}
+              >
+                {useLoopPoints ? "Looping loop points" : "Looping whole file"}
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
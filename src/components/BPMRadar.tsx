@@ -1,11 +1,18 @@
 "use client";
 
 import { useState, useCallback, useMemo } from "react";
+import { formatBPM, MeterCandidate, roundBPM, TempoPoint, TempoStability } from "@/lib/audio-analyzer";
 
 interface BPMRadarProps {
   bpm: number;
   confidence: number;
   alternatives: number[];
+  tempoCurve?: TempoPoint[];
+  tempoDrift?: number; // percent
+  tempoStability?: TempoStability;
+  meterCandidates?: MeterCandidate[];
+  selectedMeter?: number; // Index into meterCandidates
+  onMeterSelect?: (index: number) => void;
   onBPMSelect?: (bpm: number) => void;
   selectedBPM?: number;
   onVolumeChange?: (volume: number) => void;
@@ -17,6 +24,12 @@ export function BPMRadar({
   bpm,
   confidence,
   alternatives,
+  tempoCurve,
+  tempoDrift = 0,
+  tempoStability,
+  meterCandidates,
+  selectedMeter = 0,
+  onMeterSelect,
   onBPMSelect,
   selectedBPM,
   onVolumeChange,
@@ -41,8 +54,8 @@ export function BPMRadar({
       if (bpm * 2 <= 200 && !bpms.some(b => b.value === bpm * 2)) {
         bpms.push({ value: bpm * 2, confidence: 0.4, isMain: false });
       }
-      if (bpm / 2 >= 50 && !bpms.some(b => b.value === Math.round(bpm / 2))) {
-        bpms.push({ value: Math.round(bpm / 2), confidence: 0.4, isMain: false });
+      if (bpm / 2 >= 50 && !bpms.some(b => b.value === roundBPM(bpm / 2))) {
+        bpms.push({ value: roundBPM(bpm / 2), confidence: 0.4, isMain: false });
       }
     }
 
@@ -95,6 +108,17 @@ export function BPMRadar({
     ? validPoints.map(p => `${p.x},${p.y}`).join(" ")
     : "";
 
+  // Local tempo sparkline, scaled to at least ±2% so a steady loop reads as flat
+  const sparkline = useMemo(() => {
+    if (!tempoCurve || tempoCurve.length < 2) return "";
+    const start = tempoCurve[0].time;
+    const span = tempoCurve[tempoCurve.length - 1].time - start || 1;
+    const range = Math.max(bpm * 0.02, ...tempoCurve.map(p => Math.abs(p.bpm - bpm)));
+    return tempoCurve
+      .map(p => `${((p.time - start) / span) * 80},${8 - ((p.bpm - bpm) / range) * 7}`)
+      .join(" ");
+  }, [tempoCurve, bpm]);
+
   const gridLevels = [0.33, 0.66, 1];
   const createHexagonPath = (radius: number) => {
     const hexPoints = [];
@@ -226,7 +250,7 @@ export function BPMRadar({
                 }`}
                 onClick={() => onBPMSelect?.(p.item.value)}
               >
-                {p.item.value}
+                {formatBPM(p.item.value)}
               </text>
             );
           })}
@@ -238,7 +262,7 @@ export function BPMRadar({
             dominantBaseline="middle"
             className="fill-orange text-xl font-display"
           >
-            {activeBPM}
+            {formatBPM(activeBPM)}
           </text>
           <text
             x={center}
@@ -251,6 +275,48 @@ export function BPMRadar({
           </text>
         </svg>
       </div>
+
+      {/* Meter candidates; picking one changes the metronome accents */}
+      {meterCandidates && meterCandidates.length > 0 && (
+        <div className="flex items-center gap-1 mb-1 text-[10px]">
+          {meterCandidates.slice(0, 3).map((meter, i) => {
+            const isActive = i === selectedMeter;
+            return (
+              <button
+                key={i}
+                onClick={() => onMeterSelect?.(i)}
+                title={`${meter.beatsPerBar} clicks per bar`}
+                className={`px-1.5 py-0.5 rounded border transition-colors ${
+                  isActive
+                    ? "border-orange bg-orange/15 text-orange"
+                    : "border-brown/20 text-brown/60 hover:border-orange hover:text-orange"
+                }`}
+              >
+                {meter.timeSignature}
+                <span className="ml-1 opacity-60">{Math.round(meter.confidence * 100)}%</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Tempo stability: whether the sample can be warped to a fixed grid */}
+      {tempoStability && (
+        <div
+          className={`flex items-center gap-1.5 text-[10px] ${tempoStability === "drifting" ? "text-orange" : "text-forest/70"}`}
+          title="Largest deviation of the local tempo from the detected BPM"
+        >
+          {sparkline && (
+            <svg width={80} height={16} className="overflow-visible">
+              <line x1={0} x2={80} y1={8} y2={8} stroke="currentColor" strokeOpacity={0.2} />
+              <polyline points={sparkline} fill="none" stroke="currentColor" strokeWidth={1.5} />
+            </svg>
+          )}
+          <span>
+            {tempoStability === "drifting" ? `drifting ±${tempoDrift}%` : "stable"}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,86 @@
+"use client";
+
+import { AnalysisResult, ChannelAnalysis, ChannelStrategy, CHANNEL_STRATEGIES } from "@/lib/audio-analyzer";
+
+interface ChannelPanelProps {
+  result: AnalysisResult;
+  perChannel: boolean;
+  onStrategyChange?: (strategy: ChannelStrategy) => void;
+  onPerChannelChange?: (perChannel: boolean) => void;
+}
+
+const STRATEGY_LABELS: Record<ChannelStrategy, string> = {
+  mono: "Mono",
+  mid: "Mid",
+  side: "Side",
+  left: "L",
+  right: "R",
+};
+
+// Channels "disagree" when tempos are more than a couple of BPM apart or the top keys differ
+function channelsDisagree(results: ChannelAnalysis[]): boolean {
+  const [first, ...rest] = results;
+  const firstKey = first.keyCandidates[0];
+  return rest.some((other) => {
+    const otherKey = other.keyCandidates[0];
+    return (
+      Math.abs(other.bpm - first.bpm) > 2 ||
+      otherKey?.key !== firstKey?.key ||
+      otherKey?.mode !== firstKey?.mode
+    );
+  });
+}
+
+export function ChannelPanel({ result, perChannel, onStrategyChange, onPerChannelChange }: ChannelPanelProps) {
+  const channelResults = result.channelResults;
+  const disagree = channelResults ? channelsDisagree(channelResults) : false;
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 mb-3 text-[10px] text-brown/60">
+      <div className="flex items-center gap-1.5">
+        <span className="mr-1">Channels</span>
+        {CHANNEL_STRATEGIES.map((s) => {
+          // Mono files always report "mono", whatever was requested
+          const isActive = s === result.channelStrategy;
+          return (
+            <button
+              key={s}
+              onClick={() => onStrategyChange?.(s)}
+              className={`px-2 py-0.5 rounded border transition-colors ${
+                isActive
+                  ? "border-olive bg-olive/20 text-forest"
+                  : "border-brown/20 hover:border-forest hover:text-forest"
+              }`}
+            >
+              {STRATEGY_LABELS[s]}
+            </button>
+          );
+        })}
+        <label className="flex items-center gap-1 ml-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={perChannel}
+            onChange={(e) => onPerChannelChange?.(e.target.checked)}
+            className="accent-olive"
+          />
+          Compare channels
+        </label>
+      </div>
+
+      {channelResults && (
+        <div className={`flex items-center gap-3 ${disagree ? "text-orange" : "text-brown/50"}`}>
+          {channelResults.map((channel) => {
+            const top = channel.keyCandidates[0];
+            return (
+              <span key={channel.channel}>
+                <span className="uppercase">{channel.channel}</span>: {channel.bpm} BPM
+                {top && ` · ${top.key} ${top.mode}`}
+              </span>
+            );
+          })}
+          <span>{disagree ? "· channels disagree" : "· channels agree"}</span>
+        </div>
+      )}
+    </div>
+  );
+}
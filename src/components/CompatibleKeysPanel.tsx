@@ -0,0 +1,36 @@
+"use client";
+
+import { compatibleKeys, formatKeyName, KeyCandidate, KeyNotation } from "@/lib/audio-analyzer";
+
+interface CompatibleKeysPanelProps {
+  candidate: KeyCandidate;
+  notation: KeyNotation;
+}
+
+// Shows the other notations alongside the chosen one, so a code can be read either way
+function describeKey(key: string, mode: KeyCandidate["mode"], notation: KeyNotation): string {
+  const name = `${formatKeyName(key, mode, notation === "flats" ? "flats" : "sharps")} ${mode}`;
+  return notation === "camelot" || notation === "openkey" ? `${formatKeyName(key, mode, notation)} · ${name}` : name;
+}
+
+export function CompatibleKeysPanel({ candidate, notation }: CompatibleKeysPanelProps) {
+  const matches = compatibleKeys(candidate.key, candidate.mode);
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 mb-3 text-[10px] text-brown/60">
+      <span>Mixes with {describeKey(candidate.key, candidate.mode, notation)}</span>
+      <div className="flex flex-wrap items-center justify-center gap-1.5">
+        {matches.slice(1).map((match) => (
+          <span
+            key={match.relation}
+            className="px-2 py-0.5 rounded border border-brown/20"
+            title={match.relation}
+          >
+            <span className="text-forest">{describeKey(match.key, match.mode, notation)}</span>
+            <span className="text-brown/40"> · {match.relation}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
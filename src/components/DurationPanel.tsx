@@ -0,0 +1,59 @@
+"use client";
+
+import { AnalysisResult } from "@/lib/audio-analyzer";
+
+interface DurationPanelProps {
+  result: AnalysisResult;
+  onMaxDurationChange?: (maxDuration: number) => void;
+}
+
+// Seconds analyzed from the start; 0 is the whole file
+const MAX_DURATIONS = [120, 600, 1800, 0];
+
+function durationLabel(maxDuration: number): string {
+  return maxDuration === 0 ? "Whole file" : `${maxDuration / 60} min`;
+}
+
+// h:mm:ss for DJ mixes, m:ss otherwise
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// Only for files longer than the shortest cap, where the choice changes anything
+export function DurationPanel({ result, onMaxDurationChange }: DurationPanelProps) {
+  if (result.sourceDuration <= MAX_DURATIONS[0]) return null;
+
+  const truncated = result.duration < result.sourceDuration;
+  // Caps at least as long as the file would analyze all of it, the same as "Whole file"
+  const options = MAX_DURATIONS.filter((d) => d === 0 || d < result.sourceDuration);
+  const active = truncated ? options.find((d) => Math.abs(d - result.duration) < 1) : 0;
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 mb-3 text-[10px] text-brown/60">
+      <div className="flex items-center gap-1.5">
+        <span className="mr-1">Analyze</span>
+        {options.map((d) => (
+          <button
+            key={d}
+            onClick={() => onMaxDurationChange?.(d)}
+            className={`px-2 py-0.5 rounded border transition-colors ${
+              d === active
+                ? "border-olive bg-olive/20 text-forest"
+                : "border-brown/20 hover:border-forest hover:text-forest"
+            }`}
+          >
+            {durationLabel(d)}
+          </button>
+        ))}
+      </div>
+      {truncated && (
+        <span className="text-brown/50">
+          Analyzed the first {formatDuration(result.duration)} of {formatDuration(result.sourceDuration)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import {
+  AnalysisResult,
+  ChromaMethod,
+  CHROMA_METHODS,
+  KeyProfileChoice,
+  KEY_PROFILES,
+  KEY_PROFILE_CHOICES,
+  KEY_PROFILE_IDS,
+} from "@/lib/audio-analyzer";
+
+interface KeyProfilePanelProps {
+  result: AnalysisResult;
+  onProfileChange?: (profile: KeyProfileChoice) => void;
+  onChromaMethodChange?: (method: ChromaMethod) => void;
+}
+
+const CHROMA_LABELS: Record<ChromaMethod, string> = {
+  fft: "FFT",
+  hpcp: "HPCP",
+};
+
+function optionClass(isActive: boolean): string {
+  return `px-2 py-0.5 rounded border transition-colors ${
+    isActive
+      ? "border-olive bg-olive/20 text-forest"
+      : "border-brown/20 hover:border-forest hover:text-forest"
+  }`;
+}
+
+function profileName(profile: KeyProfileChoice): string {
+  return profile === "ensemble" ? "Ensemble" : KEY_PROFILES[profile].name;
+}
+
+export function KeyProfilePanel({ result, onProfileChange, onChromaMethodChange }: KeyProfilePanelProps) {
+  const agreement = result.keyProfileAgreement;
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 mb-3 text-[10px] text-brown/60">
+      <div className="flex flex-wrap items-center justify-center gap-1.5">
+        <span className="mr-1">Key profile</span>
+        {KEY_PROFILE_CHOICES.map((p) => (
+          <button key={p} onClick={() => onProfileChange?.(p)} className={optionClass(p === result.keyProfile)}>
+            {profileName(p)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <span className="mr-1">Chroma</span>
+        {CHROMA_METHODS.map((m) => (
+          <button key={m} onClick={() => onChromaMethodChange?.(m)} className={optionClass(m === result.chromaMethod)}>
+            {CHROMA_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-brown/50">
+        {agreement.length === 0
+          ? "No single profile agrees with this key"
+          : agreement.length === KEY_PROFILE_IDS.length
+            ? "All profiles agree"
+            : `Agreed by ${agreement.map((id) => KEY_PROFILES[id].name).join(", ")}`}
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,24 @@
 "use client";
 
 import { useRef, useCallback, useState, useEffect } from "react";
-import { KeyCandidate } from "@/lib/audio-analyzer";
+import { formatKeyName, KeyCandidate, KeyNotation, KEY_NOTATIONS, RootNote, tuningReference } from "@/lib/audio-analyzer";
 
 interface KeyRadarProps {
   candidates: KeyCandidate[];
   stopTrigger?: number;
-  useFlats?: boolean;
-  onToggleNotation?: () => void;
+  notation?: KeyNotation;
+  onToggleNotation?: () => void; // Advances to the next notation
+  tuningCents?: number; // Detected tuning; the pitch slider starts here
+  rootNote?: RootNote | null; // One-shots: shown instead of the key candidates
+  selectedKey?: KeyCandidate | null; // Key chosen for tagging; underlined
+  onKeySelect?: (candidate: KeyCandidate) => void; // Clicking a candidate also chooses it
 }
 
-const SHARP_TO_FLAT: Record<string, string> = {
-  "C#": "Db",
-  "D#": "Eb",
-  "F#": "Gb",
-  "G#": "Ab",
-  "A#": "Bb",
+const NOTATION_LABELS: Record<KeyNotation, string> = {
+  sharps: "♯",
+  flats: "♭",
+  camelot: "Camelot",
+  openkey: "Open Key",
 };
 
 const NOTE_FREQUENCIES: Record<string, number> = {
@@ -33,17 +36,15 @@ const NOTE_FREQUENCIES: Record<string, number> = {
   "B": 493.88,
 };
 
-export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNotation }: KeyRadarProps) {
-  const formatKey = (key: string) => {
-    if (useFlats && SHARP_TO_FLAT[key]) {
-      return SHARP_TO_FLAT[key];
-    }
-    return key;
-  };
+export function KeyRadar({ candidates, stopTrigger, notation = "sharps", onToggleNotation, tuningCents = 0, rootNote, selectedKey, onKeySelect }: KeyRadarProps) {
+  const isWheelCode = notation === "camelot" || notation === "openkey";
+  const nextNotation = KEY_NOTATIONS[(KEY_NOTATIONS.indexOf(notation) + 1) % KEY_NOTATIONS.length];
   const top6 = candidates.slice(0, 6);
   const [activeNote, setActiveNote] = useState<string | null>(null);
   const [volume, setVolume] = useState(100);
-  const [detune, setDetune] = useState(0); // cents (-50 to +50)
+  // A one-shot's reference tone matches the hit itself rather than the overall tuning
+  const baseDetune = rootNote ? rootNote.cents : Math.round(tuningCents);
+  const [detune, setDetune] = useState(baseDetune); // cents (-50 to +50)
   const audioContextRef = useRef<AudioContext | null>(null);
   const oscillatorRef = useRef<{ osc: OscillatorNode; gain: GainNode } | null>(null);
 
@@ -60,6 +61,11 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
     }
   }, [stopTrigger]);
 
+  // Follow the detected tuning when a new analysis comes in
+  useEffect(() => {
+    setDetune(baseDetune);
+  }, [baseDetune]);
+
   // Update detune on active oscillator
   useEffect(() => {
     if (oscillatorRef.current) {
@@ -98,9 +104,7 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
     };
   }, []);
 
-  const toggleNote = useCallback((key: string, mode: "major" | "minor") => {
-    const noteId = `${key}-${mode}`;
-
+  const toggleNote = useCallback((noteId: string, key: string) => {
     if (activeNote === noteId) {
       if (oscillatorRef.current) {
         const { gain, osc } = oscillatorRef.current;
@@ -142,6 +146,11 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
     setActiveNote(noteId);
   }, [activeNote, getAudioContext, detune, volume]);
 
+  const handleCandidateClick = useCallback((candidate: KeyCandidate) => {
+    toggleNote(`${candidate.key}-${candidate.mode}`, candidate.key);
+    onKeySelect?.(candidate);
+  }, [toggleNote, onKeySelect]);
+
   const handleVolumeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setVolume(Number(e.target.value));
   }, []);
@@ -186,6 +195,61 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
       <div className="flex items-start gap-2">
         {/* Radar with toggle below */}
         <div className="flex flex-col items-center">
+          {rootNote ? (
+            // One-shot: a single pitch, so the radar gives way to the root note
+            <svg width={size} height={size} className="overflow-visible">
+              {gridLevels.map((level, i) => (
+                <circle
+                  key={i}
+                  cx={center}
+                  cy={center}
+                  r={minRadius + (maxRadius - minRadius) * level}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="1"
+                  className="text-brown/15"
+                />
+              ))}
+              <g className="cursor-pointer" onClick={() => toggleNote("root", rootNote.note)}>
+                <circle
+                  cx={center}
+                  cy={center}
+                  r={minRadius + (maxRadius - minRadius) * rootNote.confidence}
+                  fill={activeNote === "root" ? "#DDA15E" : "#606C38"}
+                  fillOpacity={0.35}
+                  stroke={activeNote === "root" ? "#BC6C25" : "#283618"}
+                  strokeWidth="2"
+                />
+                <text
+                  x={center}
+                  y={center - 6}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  className={`text-2xl font-medium ${activeNote === "root" ? "fill-orange" : "fill-forest"}`}
+                >
+                  {formatKeyName(rootNote.note, "major", notation === "flats" ? "flats" : "sharps")}
+                  {rootNote.octave}
+                </text>
+                <text
+                  x={center}
+                  y={center + 16}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  className="text-[9px] fill-brown/60"
+                >
+                  MIDI {rootNote.midi} · {rootNote.cents > 0 ? `+${rootNote.cents}` : rootNote.cents}¢
+                </text>
+              </g>
+              <text
+                x={center}
+                y={size - 4}
+                textAnchor="middle"
+                className="text-[9px] fill-brown/50"
+              >
+                {rootNote.frequency} Hz · one-shot root
+              </text>
+            </svg>
+          ) : (
           <svg width={size} height={size} className="overflow-visible">
           {gridLevels.map((level, i) => (
             <polygon
@@ -234,7 +298,7 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
               <g
                 key={i}
                 className="cursor-pointer group"
-                onClick={() => toggleNote(p.candidate.key, p.candidate.mode)}
+                onClick={() => handleCandidateClick(p.candidate)}
               >
                 <circle cx={p.x} cy={p.y} r={14} fill="transparent" />
                 <circle
@@ -255,9 +319,10 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
             const noteId = `${p.candidate.key}-${p.candidate.mode}`;
             const isActive = activeNote === noteId;
             const isTop = i === 0;
+            const isSelected = selectedKey?.key === p.candidate.key && selectedKey.mode === p.candidate.mode;
 
             return (
-              <g key={`label-${i}`} className="cursor-pointer" onClick={() => toggleNote(p.candidate.key, p.candidate.mode)}>
+              <g key={`label-${i}`} className="cursor-pointer" onClick={() => handleCandidateClick(p.candidate)}>
                 <text
                   x={p.labelX}
                   y={p.labelY}
@@ -265,9 +330,9 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
                   dominantBaseline="middle"
                   className={`text-xs font-medium transition-colors ${
                     isActive ? "fill-orange" : isTop ? "fill-forest" : "fill-brown/70"
-                  }`}
+                  } ${isSelected ? "underline" : ""}`}
                 >
-                  {formatKey(p.candidate.key)}
+                  {formatKeyName(p.candidate.key, p.candidate.mode, notation)}
                 </text>
                 <text
                   x={p.labelX}
@@ -278,19 +343,23 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
                     isActive ? "fill-orange/80" : "fill-brown/50"
                   }`}
                 >
-                  {p.candidate.mode}
+                  {/* Wheel codes already carry the mode, so show the plain key name instead */}
+                  {isWheelCode
+                    ? `${p.candidate.key}${p.candidate.mode === "minor" ? "m" : ""}`
+                    : p.candidate.mode}
                 </text>
               </g>
             );
           })}
         </svg>
+          )}
 
-          {/* Sharp/Flat toggle */}
+          {/* Notation toggle: sharps → flats → Camelot → Open Key */}
           <button
             onClick={onToggleNotation}
             className="mt-6 px-2 py-0.5 text-[10px] text-brown/60 hover:text-forest border border-brown/20 hover:border-forest rounded transition-colors"
           >
-            {useFlats ? "♭ → ♯" : "♯ → ♭"}
+            {NOTATION_LABELS[notation]} → {NOTATION_LABELS[nextNotation]}
           </button>
         </div>
 
@@ -322,6 +391,7 @@ export function KeyRadar({ candidates, stopTrigger, useFlats = false, onToggleNo
             style={{ writingMode: "vertical-lr", direction: "rtl" }}
           />
           <span className="text-[10px] text-forest/80 mt-1">{detune > 0 ? `+${detune}` : detune}¢</span>
+          <span className="text-[9px] text-forest/50">A={tuningReference(detune).toFixed(1)}</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,78 @@
+"use client";
+
+import { useMemo } from "react";
+import { LoudnessResult } from "@/lib/audio-analyzer";
+
+interface LoudnessMeterProps {
+  loudness: LoudnessResult;
+}
+
+// Bars span -60 dB to 0 dB
+const METER_FLOOR = -60;
+// True peaks above this risk clipping after lossy encoding
+const TRUE_PEAK_LIMIT = -1;
+
+function meterHeight(db: number): string {
+  const ratio = (Math.min(0, Math.max(METER_FLOOR, db)) - METER_FLOOR) / -METER_FLOOR;
+  return `${ratio * 100}%`;
+}
+
+function MeterBar({ value, label, warn = false }: { value: number; label: string; warn?: boolean }) {
+  return (
+    <div className="flex flex-col items-center h-full">
+      <div className="relative flex-1 w-2.5 rounded-full bg-brown/10 overflow-hidden">
+        <div
+          className={`absolute bottom-0 left-0 w-full rounded-full ${warn ? "bg-orange" : "bg-olive"}`}
+          style={{ height: meterHeight(value) }}
+        />
+      </div>
+      <span className={`text-[10px] mt-1 ${warn ? "text-orange" : "text-forest/80"}`}>{value}</span>
+      <span className="text-[9px] text-brown/50">{label}</span>
+    </div>
+  );
+}
+
+export function LoudnessMeter({ loudness }: LoudnessMeterProps) {
+  const { integrated, shortTerm, shortTermMax, range, truePeak, rms, crestFactor } = loudness;
+
+  // Short-term loudness sparkline over the meter's dB scale
+  const sparkline = useMemo(() => {
+    if (shortTerm.length < 2) return "";
+    const start = shortTerm[0].time;
+    const span = shortTerm[shortTerm.length - 1].time - start || 1;
+    const top = shortTermMax;
+    const bottom = Math.min(top - 6, ...shortTerm.map((p) => p.lufs));
+    return shortTerm
+      .map((p) => `${((p.time - start) / span) * 64},${14 - ((p.lufs - bottom) / (top - bottom)) * 12}`)
+      .join(" ");
+  }, [shortTerm, shortTermMax]);
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="flex flex-col items-center h-[180px]">
+        <span className="text-[10px] text-brown/50 mb-1">Level</span>
+        <div className="flex gap-3 h-[120px]">
+          <MeterBar value={integrated} label="LUFS" />
+          <MeterBar value={truePeak} label="dBTP" warn={truePeak > TRUE_PEAK_LIMIT} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[auto_auto] gap-x-2 text-[9px] text-brown/60" title="Short-term max, loudness range, RMS and crest factor">
+        <span>ST max</span>
+        <span className="text-right text-forest/80">{shortTermMax} LUFS</span>
+        <span>LRA</span>
+        <span className="text-right text-forest/80">{range} LU</span>
+        <span>RMS</span>
+        <span className="text-right text-forest/80">{rms} dB</span>
+        <span>Crest</span>
+        <span className="text-right text-forest/80">{crestFactor} dB</span>
+      </div>
+
+      {sparkline && (
+        <svg width={64} height={16} className="mt-1 overflow-visible text-forest/70">
+          <polyline points={sparkline} fill="none" stroke="currentColor" strokeWidth={1.5} />
+        </svg>
+      )}
+    </div>
+  );
+}
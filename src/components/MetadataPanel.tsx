@@ -0,0 +1,80 @@
+"use client";
+
+import { formatBPM, formatKeyName, KeyNotation } from "@/lib/audio-analyzer";
+import {
+  FileMetadata,
+  MetadataAgreement,
+  MetadataComparison,
+  MetadataSource,
+  METADATA_AGREEMENT_LABELS,
+  METADATA_SOURCE_LABELS,
+  TaggedKey,
+  taggedNoteName,
+} from "@/lib/metadata-reader";
+
+interface MetadataPanelProps {
+  metadata: FileMetadata;
+  comparison: MetadataComparison;
+  notation: KeyNotation;
+  usePrior: boolean;
+  onUsePriorChange?: (usePrior: boolean) => void;
+}
+
+// A bare note has no Camelot or Open Key code, so it stays a note name
+function taggedKeyLabel({ key, mode }: TaggedKey, notation: KeyNotation): string {
+  if (!mode) return formatKeyName(key, "major", notation === "flats" ? "flats" : "sharps");
+  const name = formatKeyName(key, mode, notation);
+  return notation === "sharps" || notation === "flats" ? `${name} ${mode}` : name;
+}
+
+function TaggedValue({
+  label,
+  source,
+  agreement,
+}: {
+  label: string;
+  source: MetadataSource;
+  agreement: MetadataAgreement | null;
+}) {
+  // null: nothing detected to compare against, such as a one-shot's tempo
+  const flagged = agreement !== null && agreement !== "agrees";
+  return (
+    <span className={flagged ? "text-orange" : "text-brown/60"} title={`From the ${METADATA_SOURCE_LABELS[source]}`}>
+      {label}
+      {agreement && <span className={flagged ? "" : "text-forest"}> · {METADATA_AGREEMENT_LABELS[agreement]}</span>}
+    </span>
+  );
+}
+
+export function MetadataPanel({ metadata, comparison, notation, usePrior, onUsePriorChange }: MetadataPanelProps) {
+  const { tempo, key, rootNote } = metadata;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mb-3 text-[10px] text-brown/60">
+      <span>Tagged</span>
+      {tempo && <TaggedValue label={`${formatBPM(tempo.bpm)} BPM`} source={tempo.source} agreement={comparison.tempo} />}
+      {key && <TaggedValue label={taggedKeyLabel(key, notation)} source={key.source} agreement={comparison.key} />}
+      {rootNote && (
+        <TaggedValue
+          label={`root ${taggedNoteName(rootNote.midi)}`}
+          source={rootNote.source}
+          agreement={comparison.rootNote}
+        />
+      )}
+      {(tempo || key) && (
+        <label
+          className="flex items-center gap-1 cursor-pointer"
+          title="Rank the detected tempo and key candidates matching the tags first"
+        >
+          <input
+            type="checkbox"
+            checked={usePrior}
+            onChange={(e) => onUsePriorChange?.(e.target.checked)}
+            className="accent-olive"
+          />
+          Use as prior
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { AnalysisResult, WAVBitDepth, WAV_BIT_DEPTHS } from "@/lib/audio-analyzer";
+import { downloadBlob } from "@/lib/download";
+import {
+  DEFAULT_PREP_SETTINGS,
+  NormalizeMode,
+  NORMALIZE_MODES,
+  normalizationGain,
+  prepareSample,
+  preparedFileName,
+  PrepSettings,
+  PREP_SAMPLE_RATES,
+} from "@/lib/sample-prep";
+
+interface PreparePanelProps {
+  file: File;
+  result: AnalysisResult;
+  bpm: number; // Tempo for the file name, as played (nudge included)
+}
+
+const NORMALIZE_LABELS: Record<NormalizeMode, string> = {
+  off: "Off",
+  peak: "Peak",
+  lufs: "LUFS",
+};
+
+const BIT_DEPTH_LABELS: Record<WAVBitDepth, string> = {
+  16: "16-bit",
+  24: "24-bit",
+  32: "32-bit float",
+};
+
+function optionClass(isActive: boolean): string {
+  return `px-2 py-0.5 rounded border transition-colors ${
+    isActive
+      ? "border-olive bg-olive/20 text-forest"
+      : "border-brown/20 hover:border-forest hover:text-forest"
+  }`;
+}
+
+const numberInputClass = "w-12 px-1 py-0.5 rounded border border-brown/20 bg-transparent text-forest/80 text-right";
+
+export function PreparePanel({ file, result, bpm }: PreparePanelProps) {
+  const [settings, setSettings] = useState<PrepSettings>(DEFAULT_PREP_SETTINGS);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = useCallback((changes: Partial<PrepSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  const fileName = preparedFileName(file.name, result, bpm);
+  // The analysis peak stands in for the rendered one; trimming silence doesn't change it
+  const gain = normalizationGain(settings, result.loudness, result.loudness.samplePeak);
+
+  const handlePrepare = useCallback(async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const wav = await prepareSample(file, result.loudness, settings);
+      downloadBlob(new Blob([wav], { type: "audio/wav" }), fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to prepare sample");
+    } finally {
+      setIsRendering(false);
+    }
+  }, [file, result.loudness, settings, fileName]);
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 mb-3 text-[10px] text-brown/60">
+      <div className="flex flex-wrap items-center justify-center gap-1.5">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.trimSilence}
+            onChange={(e) => update({ trimSilence: e.target.checked })}
+            className="accent-olive"
+          />
+          Trim below
+        </label>
+        <input
+          type="range"
+          min="-90"
+          max="-20"
+          value={settings.trimThreshold}
+          onChange={(e) => update({ trimThreshold: Number(e.target.value) })}
+          disabled={!settings.trimSilence}
+          className="w-20 accent-olive cursor-pointer disabled:opacity-40"
+        />
+        <span className="w-10 text-forest/80">{settings.trimThreshold} dB</span>
+
+        <span className="ml-2">Fade in</span>
+        <input
+          type="number"
+          min="0"
+          value={Math.round(settings.fadeIn * 1000)}
+          onChange={(e) => update({ fadeIn: Math.max(0, Number(e.target.value)) / 1000 })}
+          className={numberInputClass}
+        />
+        <span>out</span>
+        <input
+          type="number"
+          min="0"
+          value={Math.round(settings.fadeOut * 1000)}
+          onChange={(e) => update({ fadeOut: Math.max(0, Number(e.target.value)) / 1000 })}
+          className={numberInputClass}
+        />
+        <span>ms</span>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-1.5">
+        <span className="mr-1">Normalize</span>
+        {NORMALIZE_MODES.map((mode) => (
+          <button key={mode} onClick={() => update({ normalize: mode })} className={optionClass(mode === settings.normalize)}>
+            {NORMALIZE_LABELS[mode]}
+          </button>
+        ))}
+        {settings.normalize !== "off" && (
+          <>
+            <input
+              type="number"
+              step="0.5"
+              value={settings.normalize === "peak" ? settings.peakTarget : settings.lufsTarget}
+              onChange={(e) =>
+                update(settings.normalize === "peak"
+                  ? { peakTarget: Number(e.target.value) }
+                  : { lufsTarget: Number(e.target.value) })
+              }
+              className={numberInputClass}
+            />
+            <span>{settings.normalize === "peak" ? "dBFS" : "LUFS"}</span>
+            <span className={gain.limited ? "text-orange" : "text-brown/50"}>
+              {gain.db >= 0 ? "+" : ""}{gain.db.toFixed(1)} dB
+              {gain.limited && " (held at −1 dBTP)"}
+            </span>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-1.5">
+        {PREP_SAMPLE_RATES.map((rate) => (
+          <button key={rate} onClick={() => update({ sampleRate: rate })} className={optionClass(rate === settings.sampleRate)}>
+            {rate / 1000} kHz
+          </button>
+        ))}
+        <span className="mx-1 text-brown/30">|</span>
+        {WAV_BIT_DEPTHS.map((depth) => (
+          <button key={depth} onClick={() => update({ bitDepth: depth })} className={optionClass(depth === settings.bitDepth)}>
+            {BIT_DEPTH_LABELS[depth]}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={handlePrepare}
+        disabled={isRendering}
+        className="px-3 py-0.5 rounded border border-olive text-forest hover:bg-olive hover:text-cream transition-colors disabled:opacity-50"
+        title="Trim, normalize and fade, then download as WAV"
+      >
+        {isRendering ? "Preparing…" : `Prepare ${fileName}`}
+      </button>
+      {error && <span className="text-orange">{error}</span>}
+    </div>
+  );
+}
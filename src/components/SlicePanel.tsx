@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { encodeWAV, extractSlice, Slice } from "@/lib/audio-analyzer";
+import { decodeAudioFile } from "@/lib/analyze-audio";
+import { downloadBlob } from "@/lib/download";
+
+interface SlicePanelProps {
+  file: File;
+  slices: Slice[];
+  sensitivity: number; // 0 to 1
+  snapToBeats: boolean;
+  onSensitivityChange?: (sensitivity: number) => void;
+  onSnapChange?: (snap: boolean) => void;
+}
+
+// Browsers drop rapid-fire downloads, so multi-slice exports are spaced out
+const DOWNLOAD_INTERVAL_MS = 200;
+
+// "loop_01.wav", "loop_02.wav", …: two digits so samplers list pads in order
+function sliceFileName(fileName: string, index: number): string {
+  const base = fileName.replace(/\.[^.]+$/, "");
+  return `${base}_${String(index + 1).padStart(2, "0")}.wav`;
+}
+
+export function SlicePanel({ file, slices, sensitivity, snapToBeats, onSensitivityChange, onSnapChange }: SlicePanelProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportSlices = useCallback(async (indices: number[]) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const input = await decodeAudioFile(file);
+      for (const [n, index] of indices.entries()) {
+        if (n > 0) await new Promise((resolve) => setTimeout(resolve, DOWNLOAD_INTERVAL_MS));
+        const wav = encodeWAV(extractSlice(input, slices[index]), 16);
+        downloadBlob(new Blob([wav], { type: "audio/wav" }), sliceFileName(file.name, index));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export slices");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [file, slices]);
+
+  const handleSensitivityChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    onSensitivityChange?.(Number(e.target.value) / 100);
+  }, [onSensitivityChange]);
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 mb-3 text-[10px] text-brown/60">
+      <div className="flex items-center gap-2">
+        <span>Slices</span>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(sensitivity * 100)}
+          onChange={handleSensitivityChange}
+          className="w-24 accent-olive cursor-pointer"
+          title="Sensitivity: higher cuts at weaker transients"
+        />
+        <span className="w-7 text-forest/80">{Math.round(sensitivity * 100)}%</span>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={snapToBeats}
+            onChange={(e) => onSnapChange?.(e.target.checked)}
+            className="accent-olive"
+          />
+          Snap to beats
+        </label>
+        <button
+          onClick={() => exportSlices(slices.map((_, i) => i))}
+          disabled={isExporting}
+          className="px-2 py-0.5 rounded border border-brown/20 hover:border-forest hover:text-forest transition-colors disabled:opacity-50"
+        >
+          {isExporting ? "Exporting…" : `Export ${slices.length} WAV${slices.length === 1 ? "" : "s"}`}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-1">
+        {slices.map((slice, i) => (
+          <button
+            key={i}
+            onClick={() => exportSlices([i])}
+            disabled={isExporting}
+            className="w-6 py-0.5 rounded border border-brown/20 text-forest/80 hover:border-forest hover:text-forest transition-colors disabled:opacity-50"
+            title={`${sliceFileName(file.name, i)} · ${slice.start.toFixed(2)}–${slice.end.toFixed(2)}s`}
+          >
+            {String(i + 1).padStart(2, "0")}
+          </button>
+        ))}
+      </div>
+      {error && <span className="text-orange">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  classifyKeyError,
+  KEY_ERROR_WEIGHTS,
+  scoreCase,
+  summarizeScores,
+  tempoAccuracy1,
+  tempoAccuracy2,
+} from "./accuracy";
+import type { AnalysisResult } from "./audio-analyzer";
+
+// Only the fields scoreCase reads
+function estimate(bpm: number, key?: string, mode?: "major" | "minor"): AnalysisResult {
+  return { bpm, keyCandidates: key && mode ? [{ key, mode, confidence: 0.9 }] : [] } as unknown as AnalysisResult;
+}
+
+describe("tempoAccuracy1", () => {
+  it("accepts tempos within 4% of the reference", () => {
+    assert.equal(tempoAccuracy1(120, 120), true);
+    assert.equal(tempoAccuracy1(124.8, 120), true);
+    assert.equal(tempoAccuracy1(115.2, 120), true);
+  });
+
+  it("rejects tempos further off, and octave errors", () => {
+    assert.equal(tempoAccuracy1(125, 120), false);
+    assert.equal(tempoAccuracy1(60, 120), false);
+    assert.equal(tempoAccuracy1(240, 120), false);
+  });
+});
+
+describe("tempoAccuracy2", () => {
+  it("also accepts double, half, triple and a third of the reference", () => {
+    for (const bpm of [120, 240, 60, 360, 40, 61.5]) {
+      assert.equal(tempoAccuracy2(bpm, 120), true, `${bpm}`);
+    }
+  });
+
+  it("rejects other ratios", () => {
+    assert.equal(tempoAccuracy2(90, 120), false);
+    assert.equal(tempoAccuracy2(160, 120), false);
+    assert.equal(tempoAccuracy2(180, 120), false);
+  });
+});
+
+describe("classifyKeyError", () => {
+  it("classifies each MIREX error type", () => {
+    const reference = { key: "C", mode: "major" } as const;
+    assert.equal(classifyKeyError({ key: "C", mode: "major" }, reference), "correct");
+    assert.equal(classifyKeyError({ key: "G", mode: "major" }, reference), "fifth");
+    assert.equal(classifyKeyError({ key: "A", mode: "minor" }, reference), "relative");
+    assert.equal(classifyKeyError({ key: "C", mode: "minor" }, reference), "parallel");
+    assert.equal(classifyKeyError({ key: "D", mode: "major" }, reference), "other");
+  });
+
+  it("counts only a fifth above as a fifth error", () => {
+    assert.equal(classifyKeyError({ key: "F", mode: "major" }, { key: "C", mode: "major" }), "other");
+    assert.equal(classifyKeyError({ key: "E", mode: "minor" }, { key: "A", mode: "minor" }), "fifth");
+  });
+
+  it("finds the relative major of a minor key a minor third up", () => {
+    assert.equal(classifyKeyError({ key: "C", mode: "major" }, { key: "A", mode: "minor" }), "relative");
+    assert.equal(classifyKeyError({ key: "F#", mode: "major" }, { key: "D#", mode: "minor" }), "relative");
+    assert.equal(classifyKeyError({ key: "D#", mode: "major" }, { key: "D#", mode: "minor" }), "parallel");
+  });
+});
+
+describe("scoreCase", () => {
+  it("scores only the references given", () => {
+    const tempoOnly = scoreCase("loop", "g", { bpm: 100 }, estimate(50, "C", "major"));
+    assert.deepEqual(tempoOnly.tempo, { estimated: 50, reference: 100, accuracy1: false, accuracy2: true });
+    assert.equal(tempoOnly.key, undefined);
+
+    const keyOnly = scoreCase("pad", "g", { key: { key: "E", mode: "minor" } }, estimate(120, "G", "major"));
+    assert.equal(keyOnly.tempo, undefined);
+    assert.equal(keyOnly.key?.error, "relative");
+  });
+
+  it("scores a missing key as wrong", () => {
+    const score = scoreCase("noise", "g", { key: { key: "C", mode: "major" } }, estimate(120));
+    assert.deepEqual(score.key, { estimated: null, reference: { key: "C", mode: "major" }, error: "other" });
+  });
+});
+
+describe("summarizeScores", () => {
+  it("weights key errors as mir_eval does", () => {
+    assert.deepEqual(KEY_ERROR_WEIGHTS, { correct: 1, fifth: 0.5, relative: 0.3, parallel: 0.2, other: 0 });
+  });
+
+  it("summarizes each group in order, then all cases", () => {
+    const c = { key: "C", mode: "major" } as const;
+    const scores = [
+      scoreCase("a", "loops", { bpm: 120 }, estimate(120)),
+      scoreCase("b", "loops", { bpm: 120 }, estimate(60)),
+      scoreCase("c", "pads", { key: c }, estimate(0, "C", "major")),
+      scoreCase("d", "pads", { key: c }, estimate(0, "G", "major")),
+      scoreCase("e", "pads", { key: c }, estimate(0, "A", "minor")),
+      scoreCase("f", "pads", { key: c }, estimate(0, "C", "minor")),
+    ];
+    const [loops, pads, all] = summarizeScores(scores);
+
+    assert.equal(loops.group, "loops");
+    assert.equal(loops.tempoCases, 2);
+    assert.equal(loops.accuracy1, 0.5);
+    assert.equal(loops.accuracy2, 1);
+    assert.equal(loops.keyCases, 0);
+    assert.equal(loops.keyScore, null);
+
+    assert.equal(pads.group, "pads");
+    assert.equal(pads.accuracy1, null);
+    assert.equal(pads.keyCases, 4);
+    assert.ok(Math.abs(pads.keyScore! - (1 + 0.5 + 0.3 + 0.2) / 4) < 1e-12);
+    assert.deepEqual(pads.keyErrors, { correct: 1, fifth: 1, relative: 1, parallel: 1, other: 0 });
+
+    assert.equal(all.group, "all");
+    assert.equal(all.tempoCases, 2);
+    assert.equal(all.keyCases, 4);
+  });
+});
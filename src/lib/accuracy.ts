@@ -0,0 +1,124 @@
+import type { AnalysisResult } from "./audio-analyzer";
+import { KEY_NAMES, KeyMode } from "./key-detection";
+
+// Scores analyses against known answers, the way MIREX does: Accuracy1/Accuracy2 for tempo
+// and a weighted score for keys that gives partial credit for near misses.
+
+export interface ReferenceKey {
+  key: string;
+  mode: KeyMode;
+}
+
+// Either may be missing: a drum loop has no key, a pad no tempo
+export interface BenchmarkReference {
+  bpm?: number;
+  key?: ReferenceKey;
+}
+
+export type KeyErrorType = "correct" | "fifth" | "relative" | "parallel" | "other";
+
+export const KEY_ERROR_TYPES: KeyErrorType[] = ["correct", "fifth", "relative", "parallel", "other"];
+
+// MIREX weights, as in mir_eval's key.weighted_score
+export const KEY_ERROR_WEIGHTS: Record<KeyErrorType, number> = {
+  correct: 1,
+  fifth: 0.5,
+  relative: 0.3,
+  parallel: 0.2,
+  other: 0,
+};
+
+// MIREX tempo tolerance: 4% either way
+export const TEMPO_TOLERANCE = 0.04;
+// Accuracy2 also accepts the "octave" errors a listener could tap along to
+const TEMPO_OCTAVE_FACTORS = [2, 1 / 2, 3, 1 / 3];
+
+export interface CaseScore {
+  name: string;
+  group: string;
+  tempo?: { estimated: number; reference: number; accuracy1: boolean; accuracy2: boolean };
+  key?: { estimated: ReferenceKey | null; reference: ReferenceKey; error: KeyErrorType };
+}
+
+// Accuracies and scores are null when the group has no case with that reference
+export interface GroupScore {
+  group: string;
+  tempoCases: number;
+  accuracy1: number | null;
+  accuracy2: number | null;
+  keyCases: number;
+  keyScore: number | null;
+  keyErrors: Record<KeyErrorType, number>;
+}
+
+export function tempoAccuracy1(estimated: number, reference: number): boolean {
+  return Math.abs(estimated - reference) <= reference * TEMPO_TOLERANCE;
+}
+
+export function tempoAccuracy2(estimated: number, reference: number): boolean {
+  return [1, ...TEMPO_OCTAVE_FACTORS].some((f) => tempoAccuracy1(estimated, reference * f));
+}
+
+// A fifth error is the estimate a fifth above the reference in the same mode; relative and
+// parallel errors share the reference's notes or its tonic
+export function classifyKeyError(estimated: ReferenceKey, reference: ReferenceKey): KeyErrorType {
+  const interval = (KEY_NAMES.indexOf(estimated.key) - KEY_NAMES.indexOf(reference.key) + 12) % 12;
+  if (estimated.mode === reference.mode) {
+    if (interval === 0) return "correct";
+    return interval === 7 ? "fifth" : "other";
+  }
+  if (interval === 0) return "parallel";
+  // The relative minor is a minor third below its major
+  return interval === (reference.mode === "major" ? 9 : 3) ? "relative" : "other";
+}
+
+export function scoreCase(name: string, group: string, reference: BenchmarkReference, result: AnalysisResult): CaseScore {
+  const score: CaseScore = { name, group };
+  if (reference.bpm !== undefined) {
+    score.tempo = {
+      estimated: result.bpm,
+      reference: reference.bpm,
+      accuracy1: tempoAccuracy1(result.bpm, reference.bpm),
+      accuracy2: tempoAccuracy2(result.bpm, reference.bpm),
+    };
+  }
+  if (reference.key) {
+    const top = result.keyCandidates[0];
+    const estimated = top ? { key: top.key, mode: top.mode } : null;
+    score.key = {
+      estimated,
+      reference: reference.key,
+      error: estimated ? classifyKeyError(estimated, reference.key) : "other",
+    };
+  }
+  return score;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function summarizeGroup(group: string, scores: CaseScore[]): GroupScore {
+  const tempos = scores.flatMap((s) => (s.tempo ? [s.tempo] : []));
+  const keys = scores.flatMap((s) => (s.key ? [s.key] : []));
+  const keyErrors = Object.fromEntries(KEY_ERROR_TYPES.map((type) => [type, 0])) as Record<KeyErrorType, number>;
+  for (const key of keys) keyErrors[key.error]++;
+  return {
+    group,
+    tempoCases: tempos.length,
+    accuracy1: mean(tempos.map((t) => (t.accuracy1 ? 1 : 0))),
+    accuracy2: mean(tempos.map((t) => (t.accuracy2 ? 1 : 0))),
+    keyCases: keys.length,
+    keyScore: mean(keys.map((k) => KEY_ERROR_WEIGHTS[k.error])),
+    keyErrors,
+  };
+}
+
+// One summary per group, in order of first appearance, then one over every case
+export function summarizeScores(scores: CaseScore[]): GroupScore[] {
+  const groups = [...new Set(scores.map((s) => s.group))];
+  return [
+    ...groups.map((group) => summarizeGroup(group, scores.filter((s) => s.group === group))),
+    summarizeGroup("all", scores),
+  ];
+}
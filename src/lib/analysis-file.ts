@@ -0,0 +1,309 @@
+import packageInfo from "../../package.json";
+import {
+  AnalysisPrior,
+  AnalysisResult,
+  AnalysisSettings,
+  BeatGrid,
+  ChannelAnalysis,
+  CHANNEL_STRATEGIES,
+  Chord,
+  CHORD_INTERVALS,
+  CHROMA_METHODS,
+  DEFAULT_ANALYSIS_SETTINGS,
+  KEY_NAMES,
+  KEY_PROFILE_CHOICES,
+  KEY_PROFILE_IDS,
+  KeyCandidate,
+  KeyMode,
+  KeyModulation,
+  KeyPrior,
+  KeySegment,
+  LoopCheck,
+  LoudnessPoint,
+  LoudnessResult,
+  MeterCandidate,
+  Onset,
+  RootNote,
+  SAMPLE_CATEGORIES,
+  SampleClass,
+  TempoKeyEstimate,
+  TempoPoint,
+} from "./audio-analyzer";
+
+// Saved analyses: an AnalysisResult plus what produced it, as versioned JSON. The format is
+// documented in docs/analysis-format.md; keep the two in step.
+
+export const ANALYSIS_FORMAT = "sample-analysis";
+// Bumped whenever a field is added, removed or changes meaning, once a version has been
+// released. Files from newer versions are rejected rather than half-read.
+export const ANALYSIS_FORMAT_VERSION = 1;
+
+export interface AnalysisSource {
+  name: string; // File name, without its directory
+  size: number; // bytes
+  sha256: string; // Hex digest of the file's bytes, before decoding
+}
+
+export interface AnalysisFile {
+  format: typeof ANALYSIS_FORMAT;
+  version: number;
+  analyzer: string; // Version of this package that wrote the file
+  createdAt: string; // ISO 8601
+  source: AnalysisSource;
+  settings: Required<AnalysisSettings>; // As requested; the result records what was applied
+  result: AnalysisResult;
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export async function createAnalysisFile(
+  name: string,
+  data: ArrayBuffer,
+  result: AnalysisResult,
+  settings: AnalysisSettings
+): Promise<AnalysisFile> {
+  return {
+    format: ANALYSIS_FORMAT,
+    version: ANALYSIS_FORMAT_VERSION,
+    analyzer: packageInfo.version,
+    createdAt: new Date().toISOString(),
+    source: { name, size: data.byteLength, sha256: await sha256(data) },
+    settings: { ...DEFAULT_ANALYSIS_SETTINGS, ...settings },
+    result,
+  };
+}
+
+export function serializeAnalysisFile(file: AnalysisFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+// "loop.wav" -> "loop.analysis.json"
+export function analysisFileName(audioFileName: string): string {
+  return `${audioFileName.replace(/\.[^.]+$/, "")}.analysis.json`;
+}
+
+// Structural checks, each throwing with the path of the offending field. Object shapes are
+// keyed by the interface they check, so a field added to AnalysisResult without a check
+// here fails to compile.
+type Check = (value: unknown, path: string) => void;
+
+function fail(path: string, expected: string): never {
+  throw new Error(`Invalid analysis file: ${path} should be ${expected}`);
+}
+
+const number: Check = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "a number");
+};
+
+const string: Check = (value, path) => {
+  if (typeof value !== "string") fail(path, "a string");
+};
+
+const boolean: Check = (value, path) => {
+  if (typeof value !== "boolean") fail(path, "true or false");
+};
+
+function oneOf(values: readonly string[]): Check {
+  return (value, path) => {
+    if (typeof value !== "string" || !values.includes(value)) fail(path, `one of ${values.join(", ")}`);
+  };
+}
+
+function matching(pattern: RegExp, expected: string): Check {
+  return (value, path) => {
+    if (typeof value !== "string" || !pattern.test(value)) fail(path, expected);
+  };
+}
+
+function nullable(check: Check): Check {
+  return (value, path) => {
+    if (value !== null) check(value, path);
+  };
+}
+
+function optional(check: Check): Check {
+  return (value, path) => {
+    if (value !== undefined) check(value, path);
+  };
+}
+
+function arrayOf(check: Check): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) fail(path, "an array");
+    value.forEach((item, i) => check(item, `${path}[${i}]`));
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Unknown fields are ignored
+function object<T>(shape: { [K in keyof T]-?: Check }): Check {
+  return (value, path) => {
+    if (!isRecord(value)) fail(path, "an object");
+    for (const [field, check] of Object.entries<Check>(shape)) {
+      check(value[field], `${path}.${field}`);
+    }
+  };
+}
+
+const keyName = oneOf(KEY_NAMES);
+const keyMode = oneOf(["major", "minor"]);
+
+const keyCandidate = object<KeyCandidate>({
+  key: keyName,
+  mode: keyMode,
+  confidence: number,
+});
+
+const keyOf = object<{ key: string; mode: KeyMode }>({ key: keyName, mode: keyMode });
+
+const tempoKeyEstimate: { [K in keyof TempoKeyEstimate]-?: Check } = {
+  bpm: number,
+  bpmConfidence: number,
+  bpmAlternatives: arrayOf(number),
+  keyCandidates: arrayOf(keyCandidate),
+};
+
+const loudnessResult = object<LoudnessResult>({
+  integrated: number,
+  shortTerm: arrayOf(object<LoudnessPoint>({ time: number, lufs: number })),
+  shortTermMax: number,
+  range: number,
+  truePeak: number,
+  samplePeak: number,
+  rms: number,
+  crestFactor: number,
+});
+
+const analysisResult = object<AnalysisResult>({
+  ...tempoKeyEstimate,
+  duration: number,
+  sourceDuration: number,
+  sampleRate: number,
+  channelCount: number,
+  channelStrategy: oneOf(CHANNEL_STRATEGIES),
+  channelResults: optional(arrayOf(object<ChannelAnalysis>({
+    ...tempoKeyEstimate,
+    channel: string,
+  }))),
+  keyTimeline: arrayOf(object<KeySegment>({
+    start: number,
+    end: number,
+    key: keyName,
+    mode: keyMode,
+    confidence: number,
+    candidates: arrayOf(keyCandidate),
+  })),
+  keyModulations: arrayOf(object<KeyModulation>({
+    time: number,
+    from: keyOf,
+    to: keyOf,
+  })),
+  beatGrid: object<BeatGrid>({
+    beats: arrayOf(number),
+    bars: arrayOf(number),
+    firstDownbeat: number,
+    beatsPerBar: number,
+  }),
+  meterCandidates: arrayOf(object<MeterCandidate>({
+    timeSignature: oneOf(["4/4", "3/4", "6/8", "7/8"]),
+    beatsPerBar: number,
+    confidence: number,
+  })),
+  tempoCurve: arrayOf(object<TempoPoint>({ time: number, bpm: number })),
+  tempoDrift: number,
+  tempoStability: oneOf(["stable", "drifting"]),
+  keyProfile: oneOf(KEY_PROFILE_CHOICES),
+  chromaMethod: oneOf(CHROMA_METHODS),
+  keyProfileAgreement: arrayOf(oneOf(KEY_PROFILE_IDS)),
+  tuningCents: number,
+  tuningReference: number,
+  chords: arrayOf(object<Chord>({
+    start: number,
+    end: number,
+    root: keyName,
+    quality: oneOf(Object.keys(CHORD_INTERVALS)),
+    confidence: number,
+  })),
+  loudness: loudnessResult,
+  onsets: arrayOf(object<Onset>({ time: number, strength: number })),
+  sampleType: oneOf(["one-shot", "loop"]),
+  rootNote: nullable(object<RootNote>({
+    note: keyName,
+    octave: number,
+    midi: number,
+    cents: number,
+    frequency: number,
+    confidence: number,
+  })),
+  sampleClass: object<SampleClass>({
+    category: oneOf(SAMPLE_CATEGORIES),
+    confidence: number,
+  }),
+  loop: nullable(object<LoopCheck>({
+    bars: number,
+    barDuration: number,
+    overhang: number,
+    wholeBars: boolean,
+    loopStart: number,
+    loopEnd: number,
+  })),
+});
+
+const analysisFile = object<AnalysisFile>({
+  format: oneOf([ANALYSIS_FORMAT]),
+  version: number,
+  analyzer: string,
+  createdAt: string,
+  source: object<AnalysisSource>({
+    name: string,
+    size: number,
+    sha256: matching(/^[0-9a-f]{64}$/, "a hex SHA-256 digest"),
+  }),
+  settings: object<Required<AnalysisSettings>>({
+    channelStrategy: oneOf(CHANNEL_STRATEGIES),
+    perChannel: boolean,
+    keyProfile: oneOf(KEY_PROFILE_CHOICES),
+    chromaMethod: oneOf(CHROMA_METHODS),
+    prior: object<AnalysisPrior>({
+      bpm: optional(number),
+      key: optional(object<KeyPrior>({ key: keyName, mode: nullable(keyMode) })),
+    }),
+    maxDuration: number,
+  }),
+  result: analysisResult,
+});
+
+// Checks a parsed value against the current format. The version is checked before the
+// structure, so a newer file gets a clear message instead of a missing-field error.
+export function validateAnalysisFile(value: unknown): AnalysisFile {
+  if (!isRecord(value) || value.format !== ANALYSIS_FORMAT) {
+    throw new Error("Not a sample analysis file");
+  }
+  const { version } = value;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid analysis file: unknown version ${JSON.stringify(version)}`);
+  }
+  if (version > ANALYSIS_FORMAT_VERSION) {
+    throw new Error(
+      `Analysis file version ${version} is newer than this analyzer supports (${ANALYSIS_FORMAT_VERSION})`
+    );
+  }
+  analysisFile(value, "file");
+  return value as unknown as AnalysisFile;
+}
+
+export function parseAnalysisFile(text: string): AnalysisFile {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("Analysis file is not valid JSON");
+  }
+  return validateAnalysisFile(value);
+}
@@ -0,0 +1,193 @@
+import {
+  AnalysisProgress,
+  AnalysisResult,
+  AnalysisSettings,
+  cappedLength,
+  DEFAULT_ANALYSIS_SETTINGS,
+  PCMInput,
+} from "./audio-analyzer";
+import type { AnalyzeRequest, AnalyzeResponse } from "./analyzer.worker";
+import { decodePCMFrames, frameSize, PCM_HEADER_BYTES, readPCMLayout } from "./pcm-decoder";
+import type { PartialAnalysis, PCMFormat } from "./streaming-analysis";
+
+export interface AnalyzeOptions extends AnalysisSettings {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+// Where the worker's blocks come from
+interface PCMSource {
+  format: PCMFormat;
+  read(start: number, end: number): Promise<Float32Array[]>; // Frames [start, end), one array per channel
+}
+
+const BLOCK_SECONDS = 10;
+
+function abortError(): DOMException {
+  return new DOMException("Analysis aborted", "AbortError");
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// Copies the channels out of an AudioBuffer so they can be transferred to a worker
+export function audioBufferToPCM(audioBuffer: AudioBuffer): PCMInput {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+    channels.push(audioBuffer.getChannelData(c).slice());
+  }
+  return { channels, sampleRate: audioBuffer.sampleRate };
+}
+
+// AudioContext isn't available in workers, so decoding stays on the main thread
+async function decodeAudioBuffer(file: File): Promise<AudioBuffer> {
+  const audioContext = new AudioContext();
+
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    await audioContext.close();
+  }
+}
+
+export async function decodeAudioFile(file: File): Promise<PCMInput> {
+  return audioBufferToPCM(await decodeAudioBuffer(file));
+}
+
+function pcmInputSource({ channels, sampleRate }: PCMInput): PCMSource {
+  return {
+    format: { sampleRate, channelCount: channels.length, frameCount: channels[0]?.length ?? 0 },
+    read: async (start, end) => channels.map((channel) => channel.slice(start, end)),
+  };
+}
+
+// WAV and AIFF are read straight from the file a block at a time, at their own sample rate,
+// so memory doesn't grow with the file. Anything else, or a WAV encoding we can't read, is
+// decoded whole by Web Audio and handed over a block at a time.
+async function openPCMSource(file: File): Promise<PCMSource> {
+  try {
+    const layout = readPCMLayout(await file.slice(0, PCM_HEADER_BYTES).arrayBuffer(), file.size);
+    const bytesPerFrame = frameSize(layout);
+    return {
+      format: { sampleRate: layout.sampleRate, channelCount: layout.numChannels, frameCount: layout.frameCount },
+      read: async (start, end) => {
+        const offset = layout.dataOffset + start * bytesPerFrame;
+        const bytes = await file.slice(offset, offset + (end - start) * bytesPerFrame).arrayBuffer();
+        return decodePCMFrames(bytes, layout).channels;
+      },
+    };
+  } catch {
+    const audioBuffer = await decodeAudioBuffer(file);
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => audioBuffer.getChannelData(c));
+    return pcmInputSource({ channels, sampleRate: audioBuffer.sampleRate });
+  }
+}
+
+// Streams a source through the analyzer worker, reading a block only once the worker has
+// taken the last, and stopping at the maxDuration cap. Aborting terminates the worker outright.
+function analyzeSourceInWorker(
+  source: PCMSource,
+  { signal, onProgress, onPartial, ...settings }: AnalyzeOptions
+): Promise<AnalysisResult> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const { format } = source;
+  const maxDuration = settings.maxDuration ?? DEFAULT_ANALYSIS_SETTINGS.maxDuration;
+  let length: number;
+  try {
+    length = cappedLength(format.frameCount, format.sampleRate, maxDuration);
+  } catch (err) {
+    return Promise.reject(err);
+  }
+  const blockFrames = Math.max(1, Math.round(BLOCK_SECONDS * format.sampleRate));
+
+  const worker = new Worker(new URL("./analyzer.worker.ts", import.meta.url));
+
+  return new Promise<AnalysisResult>((resolve, reject) => {
+    let settled = false;
+    let position = 0;
+
+    const cleanup = () => {
+      settled = true;
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const fail = (err: unknown) => {
+      if (settled) return;
+      cleanup();
+      reject(err);
+    };
+
+    const handleAbort = () => fail(abortError());
+
+    const post = (request: AnalyzeRequest, transfer: Transferable[] = []) => {
+      worker.postMessage(request, transfer);
+    };
+
+    const sendNext = async () => {
+      if (position >= length) {
+        post({ type: "end" });
+        return;
+      }
+      const end = Math.min(length, position + blockFrames);
+      const channels = await source.read(position, end);
+      if (settled) return;
+      position = end;
+      post({ type: "block", channels }, channels.map((channel) => channel.buffer as ArrayBuffer));
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (e: MessageEvent<AnalyzeResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "partial":
+          onPartial?.(message.partial);
+          break;
+        case "consumed":
+          sendNext().catch(fail);
+          break;
+        case "result":
+          cleanup();
+          resolve(message.result);
+          break;
+        case "error":
+          fail(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (e) => fail(new Error(e.message || "Analysis worker failed"));
+
+    post({ type: "start", format, settings });
+    sendNext().catch(fail);
+  });
+}
+
+// Runs the analysis of decoded PCM in a worker, handing it over a block at a time. The input
+// is left as it was. Aborting terminates the worker outright.
+export function analyzePCMInWorker(input: PCMInput, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  return analyzeSourceInWorker(pcmInputSource(input), options);
+}
+
+// Thin File adapter: open the file as blocks of PCM, then analyze them off the main thread,
+// with partial estimates along the way
+export async function analyzeAudio(file: File, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) throw abortError();
+  onProgress?.({ stage: "decode", percent: 0 });
+
+  const source = await openPCMSource(file);
+
+  if (signal?.aborted) throw abortError();
+  onProgress?.({ stage: "decode", percent: 100 });
+
+  return analyzeSourceInWorker(source, options);
+}
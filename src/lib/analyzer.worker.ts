@@ -0,0 +1,55 @@
+import type { AnalysisProgress, AnalysisResult, AnalysisSettings } from "./audio-analyzer";
+import { createStreamingAnalysis, PartialAnalysis, PCMFormat, StreamingAnalysis } from "./streaming-analysis";
+
+// "start", then one "block" at a time, each sent once the previous one is "consumed", then "end"
+export type AnalyzeRequest =
+  | { type: "start"; format: PCMFormat; settings: AnalysisSettings }
+  | { type: "block"; channels: Float32Array[] }
+  | { type: "end" };
+
+export type AnalyzeResponse =
+  | { type: "progress"; progress: AnalysisProgress }
+  | { type: "partial"; partial: PartialAnalysis }
+  | { type: "consumed" }
+  | { type: "result"; result: AnalysisResult }
+  | { type: "error"; message: string };
+
+const ctx = self as unknown as Worker;
+let analysis: StreamingAnalysis | null = null;
+
+function respond(message: AnalyzeResponse) {
+  ctx.postMessage(message);
+}
+
+function started(): StreamingAnalysis {
+  if (!analysis) throw new Error("Analysis was not started");
+  return analysis;
+}
+
+function handle(request: AnalyzeRequest) {
+  switch (request.type) {
+    case "start":
+      analysis = createStreamingAnalysis(request.format, {
+        ...request.settings,
+        onProgress: (progress) => respond({ type: "progress", progress }),
+        onPartial: (partial) => respond({ type: "partial", partial }),
+      });
+      break;
+    case "block":
+      started().push(request.channels);
+      respond({ type: "consumed" });
+      break;
+    case "end":
+      respond({ type: "result", result: started().finish() });
+      analysis = null;
+      break;
+  }
+}
+
+ctx.onmessage = (e: MessageEvent<AnalyzeRequest>) => {
+  try {
+    handle(e.data);
+  } catch (err) {
+    respond({ type: "error", message: err instanceof Error ? err.message : "Failed to analyze audio" });
+  }
+};
@@ -1,319 +1,425 @@
-// Krumhansl-Kessler key profiles
-const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
-const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
-
-const KEY_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-
-export interface KeyCandidate {
-  key: string;
-  mode: "major" | "minor";
-  confidence: number;
-}
-
-export interface AnalysisResult {
+import { BeatGrid, groupBars, trackBeats } from "./beat-tracking";
+import { Chord, detectChords } from "./chord-detection";
+import {
+  agreeingProfiles,
+  applyKeyPrior,
+  ChromaFrames,
+  ChromaMethod,
+  createChromaTracker,
+  detectKey,
+  detectKeyTimeline,
+  KeyCandidate,
+  KeyModulation,
+  KeyPrior,
+  KeySegment,
+  tuningReference,
+} from "./key-detection";
+import { DEFAULT_KEY_PROFILE, KeyProfileChoice, KeyProfileId } from "./key-profiles";
+import { createExcerptRecorder, createTailRecorder } from "./dsp";
+import { LoopCheck, checkLoop, LoopEdges, LOOP_EDGE_LENGTH } from "./loop-points";
+import { createLoudnessMeter, LoudnessResult } from "./loudness";
+import { detectMeter, MeterCandidate } from "./meter-detection";
+import { createAttackTracker, detectOnsets, Onset } from "./onset-detection";
+import { detectRootNote, RootNote } from "./pitch-detection";
+import { ProgressCallback } from "./progress";
+import {
+  classifySample,
+  classifySampleType,
+  createSampleFeatureTracker,
+  SampleClass,
+  SampleFeatures,
+  SampleType,
+} from "./sample-classifier";
+import {
+  analyzeTempoDrift,
+  applyTempoPrior,
+  createOnsetTracker,
+  BPMResult,
+  detectBPM,
+  OnsetEnvelope,
+  refineBPMFromBeats,
+  TempoPoint,
+  TempoStability,
+} from "./tempo-detection";
+
+export type { BeatGrid } from "./beat-tracking";
+export { chordPitchClasses, CHORD_INTERVALS, formatChord } from "./chord-detection";
+export type { Chord, ChordQuality } from "./chord-detection";
+export type { LoopCheck } from "./loop-points";
+export type { LoudnessPoint, LoudnessResult } from "./loudness";
+export type { MeterCandidate, TimeSignature } from "./meter-detection";
+export { extractSlice, sliceAtOnsets } from "./onset-detection";
+export type { Onset, Slice, SliceOptions } from "./onset-detection";
+export type { RootNote } from "./pitch-detection";
+export { SAMPLE_CATEGORIES, SAMPLE_CATEGORY_LABELS } from "./sample-classifier";
+export type { SampleCategory, SampleClass, SampleType } from "./sample-classifier";
+export { encodeWAV, WAV_BIT_DEPTHS } from "./wav-encoder";
+export type { WAVBitDepth } from "./wav-encoder";
+export { formatBPM, roundBPM } from "./tempo-detection";
+export type { TempoPoint, TempoStability } from "./tempo-detection";
+export { CHROMA_METHODS, KEY_NAMES, tuningReference } from "./key-detection";
+export type { ChromaMethod, KeyCandidate, KeyMode, KeyModulation, KeyPrior, KeySegment } from "./key-detection";
+export { camelotCode, compatibleKeys, formatKeyName, KEY_NOTATIONS, openKeyCode } from "./key-notation";
+export type { CompatibleKey, KeyNotation } from "./key-notation";
+export { DEFAULT_KEY_PROFILE, KEY_PROFILES, KEY_PROFILE_CHOICES, KEY_PROFILE_IDS } from "./key-profiles";
+export type { KeyProfile, KeyProfileChoice, KeyProfileId } from "./key-profiles";
+export type { AnalysisProgress, AnalysisStage, ProgressCallback } from "./progress";
+
+// How multichannel input is folded into the single signal the detectors read
+export type ChannelStrategy = "mono" | "mid" | "side" | "left" | "right";
+
+export const CHANNEL_STRATEGIES: ChannelStrategy[] = ["mono", "mid", "side", "left", "right"];
+
+export interface TempoKeyEstimate {
   bpm: number;
   bpmConfidence: number;
   bpmAlternatives: number[];
   keyCandidates: KeyCandidate[];
 }
 
-// Simple FFT implementation (Cooley-Tukey radix-2)
-function fft(real: Float32Array, imag: Float32Array): void {
-  const n = real.length;
-  if (n <= 1) return;
-
-  // Bit-reversal permutation
-  for (let i = 0, j = 0; i < n; i++) {
-    if (i < j) {
-      [real[i], real[j]] = [real[j], real[i]];
-      [imag[i], imag[j]] = [imag[j], imag[i]];
-    }
-    let m = n >> 1;
-    while (m >= 1 && j >= m) {
-      j -= m;
-      m >>= 1;
-    }
-    j += m;
-  }
-
-  // Cooley-Tukey FFT
-  for (let len = 2; len <= n; len <<= 1) {
-    const halfLen = len >> 1;
-    const angle = (-2 * Math.PI) / len;
-    const wReal = Math.cos(angle);
-    const wImag = Math.sin(angle);
-
-    for (let i = 0; i < n; i += len) {
-      let curReal = 1;
-      let curImag = 0;
-
-      for (let j = 0; j < halfLen; j++) {
-        const uReal = real[i + j];
-        const uImag = imag[i + j];
-        const tReal = curReal * real[i + j + halfLen] - curImag * imag[i + j + halfLen];
-        const tImag = curReal * imag[i + j + halfLen] + curImag * real[i + j + halfLen];
-
-        real[i + j] = uReal + tReal;
-        imag[i + j] = uImag + tImag;
-        real[i + j + halfLen] = uReal - tReal;
-        imag[i + j + halfLen] = uImag - tImag;
-
-        const nextReal = curReal * wReal - curImag * wImag;
-        curImag = curReal * wImag + curImag * wReal;
-        curReal = nextReal;
-      }
-    }
-  }
+export interface ChannelAnalysis extends TempoKeyEstimate {
+  channel: string; // "left", "right", or "channel N" beyond stereo
 }
 
-function getMagnitudeSpectrum(samples: Float32Array, fftSize: number): Float32Array {
-  const real = new Float32Array(fftSize);
-  const imag = new Float32Array(fftSize);
-
-  // Apply Hann window and copy
-  for (let i = 0; i < fftSize; i++) {
-    const window = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (fftSize - 1)));
-    real[i] = (samples[i] || 0) * window;
-    imag[i] = 0;
-  }
-
-  fft(real, imag);
-
-  // Compute magnitude
-  const magnitude = new Float32Array(fftSize / 2);
-  for (let i = 0; i < fftSize / 2; i++) {
-    magnitude[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]);
-  }
-
-  return magnitude;
+export interface AnalysisResult extends TempoKeyEstimate {
+  duration: number; // Seconds analyzed
+  sourceDuration: number; // Seconds of input; longer than duration when maxDuration cut it short
+  sampleRate: number; // Hz, of the PCM analyzed (WAV and AIFF at their own rate, anything else at the device rate)
+  channelCount: number; // Channels in the input, before the channel strategy folds them
+  channelStrategy: ChannelStrategy; // Strategy actually applied (mono input always reports "mono")
+  channelResults?: ChannelAnalysis[]; // Only when per-channel analysis was requested on multichannel input
+  keyTimeline: KeySegment[]; // Time-ordered, contiguous; a single segment when the key never changes
+  keyModulations: KeyModulation[];
+  beatGrid: BeatGrid; // Bars follow the top meter candidate
+  meterCandidates: MeterCandidate[]; // Ranked, confidences sum to 1
+  tempoCurve: TempoPoint[]; // Local tempo over time, from the tracked beats
+  tempoDrift: number; // Largest local deviation from bpm, in percent
+  tempoStability: TempoStability;
+  keyProfile: KeyProfileChoice; // Profile that ranked the keys
+  chromaMethod: ChromaMethod;
+  keyProfileAgreement: KeyProfileId[]; // Profiles whose own top key matches the reported key
+  tuningCents: number; // Estimated offset from A=440, -50 to 50; chroma is folded around it
+  tuningReference: number; // A4 in Hz at that tuning
+  chords: Chord[]; // Beat-aligned, time-ordered; gaps where no chord was heard
+  loudness: LoudnessResult; // Measured on the original channels, whatever the channel strategy
+  onsets: Onset[]; // Every spectral-flux peak, with strength, for slicing at any sensitivity
+  sampleType: SampleType;
+  rootNote: RootNote | null; // One-shots only, and only when pitched; key candidates mean little there
+  sampleClass: SampleClass;
+  loop: LoopCheck | null; // Whole loops only: whole-bar check and seamless loop points at the detected tempo
 }
 
-function pearsonCorrelation(a: number[], b: number[]): number {
-  const n = a.length;
-  let sumA = 0, sumB = 0, sumAB = 0, sumA2 = 0, sumB2 = 0;
-
-  for (let i = 0; i < n; i++) {
-    sumA += a[i];
-    sumB += b[i];
-    sumAB += a[i] * b[i];
-    sumA2 += a[i] * a[i];
-    sumB2 += b[i] * b[i];
-  }
-
-  const num = n * sumAB - sumA * sumB;
-  const den = Math.sqrt((n * sumA2 - sumA * sumA) * (n * sumB2 - sumB * sumB));
-  return den === 0 ? 0 : num / den;
+// Plain PCM input, one Float32Array per channel (samples in -1..1), so the analyzer can run
+// anywhere: the browser main thread, a worker, Node, or tests
+export interface PCMInput {
+  channels: Float32Array[];
+  sampleRate: number;
 }
 
-function detectKey(audioBuffer: AudioBuffer): KeyCandidate[] {
-  const sampleRate = audioBuffer.sampleRate;
-  const data = audioBuffer.getChannelData(0);
-  const fftSize = 8192;
-  const hopSize = 4096;
-
-  // Accumulate chroma over all frames
-  const chroma = new Array(12).fill(0);
-
-  for (let start = 0; start + fftSize < data.length; start += hopSize) {
-    const segment = data.slice(start, start + fftSize);
-    const magnitude = getMagnitudeSpectrum(segment, fftSize);
+// Serializable analyzer settings, so they can cross the worker boundary
+export interface AnalysisSettings {
+  channelStrategy?: ChannelStrategy; // Default: "mono"
+  perChannel?: boolean; // Also analyze each channel on its own
+  keyProfile?: KeyProfileChoice; // Default: "krumhansl"
+  chromaMethod?: ChromaMethod; // Default: "fft"
+  prior?: AnalysisPrior; // Default: none
+  maxDuration?: number; // Seconds analyzed from the start, 0 for all. Default: 0
+}
 
-    // Map FFT bins to chroma
-    for (let bin = 1; bin < magnitude.length; bin++) {
-      const freq = (bin * sampleRate) / fftSize;
-      if (freq < 60 || freq > 2000) continue; // Focus on mid frequencies
+// Tempo and key the file claims for itself (tags, file name). Each only reorders the
+// detector's own candidates; see applyTempoPrior and applyKeyPrior.
+export interface AnalysisPrior {
+  bpm?: number;
+  key?: KeyPrior;
+}
 
-      // Convert frequency to pitch class
-      const midiNote = 12 * Math.log2(freq / 440) + 69;
-      const pitchClass = Math.round(midiNote) % 12;
-      const normalizedPitch = ((pitchClass % 12) + 12) % 12;
+export const DEFAULT_ANALYSIS_SETTINGS: Required<AnalysisSettings> = {
+  channelStrategy: "mono",
+  perChannel: false,
+  keyProfile: DEFAULT_KEY_PROFILE,
+  chromaMethod: "fft",
+  prior: {},
+  maxDuration: 0,
+};
+
+export interface AnalyzePCMOptions extends AnalysisSettings {
+  onProgress?: ProgressCallback;
+}
 
-      chroma[normalizedPitch] += magnitude[bin] * magnitude[bin];
-    }
+function validatePCMInput({ channels, sampleRate }: PCMInput): void {
+  if (channels.length === 0) {
+    throw new Error("PCM input has no channels");
   }
-
-  // Normalize
-  const maxChroma = Math.max(...chroma);
-  if (maxChroma > 0) {
-    for (let i = 0; i < 12; i++) {
-      chroma[i] /= maxChroma;
-    }
+  if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+    throw new Error(`Invalid sample rate: ${sampleRate}`);
   }
-
-  // Collect all key correlations
-  const candidates: { key: string; mode: "major" | "minor"; correlation: number }[] = [];
-
-  for (let shift = 0; shift < 12; shift++) {
-    const shiftedChroma: number[] = [];
-    for (let i = 0; i < 12; i++) {
-      shiftedChroma.push(chroma[(i + shift) % 12]);
-    }
-
-    const majorCorr = pearsonCorrelation(MAJOR_PROFILE, shiftedChroma);
-    const minorCorr = pearsonCorrelation(MINOR_PROFILE, shiftedChroma);
-
-    candidates.push({ key: KEY_NAMES[shift], mode: "major", correlation: majorCorr });
-    candidates.push({ key: KEY_NAMES[shift], mode: "minor", correlation: minorCorr });
+  if (channels.some((channel) => channel.length !== channels[0].length)) {
+    throw new Error("PCM channels must all have the same length");
   }
-
-  // Sort by correlation (descending)
-  candidates.sort((a, b) => b.correlation - a.correlation);
-
-  // Convert correlations to confidence scores (softmax-like normalization)
-  const topCandidates = candidates.slice(0, 6);
-  const maxCorr = topCandidates[0].correlation;
-  const minCorr = topCandidates[topCandidates.length - 1].correlation;
-  const range = maxCorr - minCorr || 1;
-
-  return topCandidates.map((c) => ({
-    key: c.key,
-    mode: c.mode,
-    confidence: (c.correlation - minCorr) / range,
-  }));
 }
 
-interface BPMResult {
-  bpm: number;
-  confidence: number;
-  alternatives: number[];
-}
-
-function detectBPM(audioBuffer: AudioBuffer): BPMResult {
-  const sampleRate = audioBuffer.sampleRate;
-  const data = audioBuffer.getChannelData(0);
-
-  // Use larger FFT for better frequency resolution in onset detection
-  const fftSize = 2048;
-  const hopSize = 512;
-
-  // Compute spectral flux (onset detection function)
-  let prevMagnitude: Float32Array | null = null;
-  const spectralFlux: number[] = [];
-
-  for (let start = 0; start + fftSize < data.length; start += hopSize) {
-    const segment = data.slice(start, start + fftSize);
-    const magnitude = getMagnitudeSpectrum(segment, fftSize);
-
-    if (prevMagnitude) {
-      let flux = 0;
-      for (let i = 0; i < magnitude.length; i++) {
-        const diff = magnitude[i] - prevMagnitude[i];
-        flux += diff > 0 ? diff : 0; // Half-wave rectification
-      }
-      spectralFlux.push(flux);
-    }
-
-    prevMagnitude = magnitude;
+// Frames analyzed out of frameCount under a maxDuration cap
+export function cappedLength(frameCount: number, sampleRate: number, maxDuration: number): number {
+  if (!(maxDuration >= 0)) {
+    throw new Error(`Invalid maximum duration: ${maxDuration}`);
   }
+  return maxDuration > 0 ? Math.min(frameCount, Math.round(maxDuration * sampleRate)) : frameCount;
+}
 
-  if (spectralFlux.length < 100) {
-    return { bpm: 120, confidence: 0, alternatives: [] };
+function mixChannels(a: Float32Array, b: Float32Array, sign: 1 | -1): Float32Array {
+  const mixed = new Float32Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    mixed[i] = (a[i] + sign * b[i]) / 2;
   }
+  return mixed;
+}
 
-  // Normalize spectral flux
-  const maxFlux = Math.max(...spectralFlux);
-  if (maxFlux > 0) {
-    for (let i = 0; i < spectralFlux.length; i++) {
-      spectralFlux[i] /= maxFlux;
-    }
-  }
-
-  // Compute autocorrelation to find tempo
-  const framesPerSecond = sampleRate / hopSize;
-  const minBPM = 60;
-  const maxBPM = 180;
-  const minLag = Math.floor((60 / maxBPM) * framesPerSecond);
-  const maxLag = Math.floor((60 / minBPM) * framesPerSecond);
-
-  const correlations: number[] = [];
-  for (let lag = minLag; lag <= maxLag && lag < spectralFlux.length / 2; lag++) {
-    let sum = 0;
-    for (let i = 0; i < spectralFlux.length - lag; i++) {
-      sum += spectralFlux[i] * spectralFlux[i + lag];
-    }
-    correlations.push(sum / (spectralFlux.length - lag));
+// Mono input has nothing to fold, so every strategy collapses to "mono" there
+export function downmixChannels(
+  channels: Float32Array[],
+  strategy: ChannelStrategy
+): { data: Float32Array; strategy: ChannelStrategy } {
+  if (channels.length === 1) {
+    return { data: channels[0], strategy: "mono" };
   }
 
-  // Find peaks in autocorrelation
-  const peaks: { lag: number; value: number; bpm: number }[] = [];
-  for (let i = 1; i < correlations.length - 1; i++) {
-    if (correlations[i] > correlations[i - 1] && correlations[i] > correlations[i + 1]) {
-      const lag = minLag + i;
-      const bpm = (60 * framesPerSecond) / lag;
-      peaks.push({ lag, value: correlations[i], bpm: Math.round(bpm) });
+  const [left, right] = channels;
+  switch (strategy) {
+    case "left":
+      return { data: left, strategy };
+    case "right":
+      return { data: right, strategy };
+    case "mid":
+      return { data: mixChannels(left, right, 1), strategy };
+    case "side":
+      return { data: mixChannels(left, right, -1), strategy };
+    case "mono": {
+      const data = new Float32Array(left.length);
+      for (const channel of channels) {
+        for (let i = 0; i < data.length; i++) {
+          data[i] += channel[i];
+        }
+      }
+      for (let i = 0; i < data.length; i++) {
+        data[i] /= channels.length;
+      }
+      return { data, strategy };
     }
   }
+}
 
-  // Sort by correlation strength
-  peaks.sort((a, b) => b.value - a.value);
-
-  if (peaks.length === 0) {
-    return { bpm: 120, confidence: 0, alternatives: [] };
-  }
-
-  // Calculate confidence based on how much stronger the best peak is
-  const bestPeak = peaks[0];
-  const maxCorr = Math.max(...correlations);
-  const avgCorr = correlations.reduce((a, b) => a + b, 0) / correlations.length;
-  const confidence = Math.min(1, Math.max(0, (bestPeak.value - avgCorr) / (maxCorr - avgCorr + 0.001)));
-
-  // Get primary BPM
-  let bpm = bestPeak.bpm;
-
-  // Normalize to common range, prefer 80-140
-  if (bpm > 140) {
-    const halfBPM = Math.round(bpm / 2);
-    if (halfBPM >= 60) bpm = halfBPM;
-  } else if (bpm < 80) {
-    const doubleBPM = bpm * 2;
-    if (doubleBPM <= 180) bpm = doubleBPM;
-  }
+function channelLabel(index: number, channelCount: number): string {
+  if (channelCount === 2) return index === 0 ? "left" : "right";
+  return `channel ${index + 1}`;
+}
 
-  // Collect alternatives (half/double time, other strong peaks)
-  const alternatives = new Set<number>();
+function toTempoFields(bpmResult: BPMResult) {
+  return {
+    bpm: bpmResult.bpm,
+    bpmConfidence: bpmResult.confidence,
+    bpmAlternatives: bpmResult.alternatives,
+  };
+}
 
-  // Add half and double time
-  if (bpm * 2 <= 200) alternatives.add(bpm * 2);
-  if (bpm / 2 >= 50) alternatives.add(Math.round(bpm / 2));
+// Tempo and key from the spectral features alone: per channel, and the running estimates
+// while a file streams in
+export function estimateTempoAndKey(
+  envelope: OnsetEnvelope,
+  chroma: ChromaFrames,
+  keyProfile: KeyProfileChoice,
+  prior: AnalysisPrior
+): TempoKeyEstimate {
+  return {
+    ...toTempoFields(applyTempoPrior(detectBPM(envelope), prior.bpm)),
+    keyCandidates: applyKeyPrior(detectKey(chroma, keyProfile), prior.key),
+  };
+}
 
-  // Add other strong peaks that are meaningfully different
-  for (const peak of peaks.slice(1, 4)) {
-    let altBpm = peak.bpm;
-    if (altBpm > 140 && altBpm / 2 >= 60) altBpm = Math.round(altBpm / 2);
-    else if (altBpm < 80 && altBpm * 2 <= 180) altBpm = altBpm * 2;
+// Everything the analysis reads from the PCM, built as it arrives, so that a long file is
+// never held whole. The onset envelope, chroma and classifier features are of the signal
+// folded by the channel strategy; loudness is of the original channels.
+export interface AnalysisFeatures {
+  sampleRate: number;
+  channelCount: number;
+  strategy: ChannelStrategy;
+  duration: number; // Seconds analyzed
+  sourceDuration: number; // Seconds, before any maxDuration cap
+  envelope: OnsetEnvelope;
+  chroma: ChromaFrames;
+  onsets: Onset[];
+  loudness: LoudnessResult;
+  sampleFeatures: SampleFeatures;
+  oneShot: Float32Array | null; // The whole folded signal while it is short enough to be a one-shot
+  edges: LoopEdges;
+  channelFeatures?: { envelope: OnsetEnvelope; chroma: ChromaFrames }[]; // Per channel, when asked for
+}
 
-    if (Math.abs(altBpm - bpm) > 5) {
-      alternatives.add(altBpm);
-    }
-  }
+export interface FeatureTracker {
+  push(channels: Float32Array[]): void; // The next frames, one array per channel; not kept
+  envelope(): OnsetEnvelope; // So far, for running estimates
+  chroma(): ChromaFrames;
+  features(sourceDuration: number): AnalysisFeatures; // Of everything pushed
+}
 
-  // Remove the primary BPM from alternatives
-  alternatives.delete(bpm);
+// `total` is the frame count the input will reach. The features come out the same however
+// the input is cut into blocks.
+export function createFeatureTracker(
+  sampleRate: number,
+  channelCount: number,
+  total: number,
+  {
+    onProgress,
+    channelStrategy = DEFAULT_ANALYSIS_SETTINGS.channelStrategy,
+    chromaMethod = DEFAULT_ANALYSIS_SETTINGS.chromaMethod,
+    perChannel = DEFAULT_ANALYSIS_SETTINGS.perChannel,
+  }: AnalyzePCMOptions = {}
+): FeatureTracker {
+  // As in downmixChannels: mono input has nothing to fold
+  const strategy: ChannelStrategy = channelCount === 1 ? "mono" : channelStrategy;
+  const onsets = createOnsetTracker(sampleRate, total, onProgress);
+  const attacks = createAttackTracker(sampleRate);
+  const chroma = createChromaTracker(sampleRate, chromaMethod, total, onProgress);
+  const loudness = createLoudnessMeter(channelCount, sampleRate, total, onProgress);
+  const sample = createSampleFeatureTracker(sampleRate, total);
+  const edgeLength = Math.round(LOOP_EDGE_LENGTH * sampleRate);
+  const head = createExcerptRecorder([{ start: 0, end: edgeLength }]);
+  const tail = createTailRecorder(edgeLength);
+  const channelTrackers =
+    perChannel && channelCount > 1
+      ? Array.from({ length: channelCount }, () => ({
+          onsets: createOnsetTracker(sampleRate, total),
+          chroma: createChromaTracker(sampleRate, chromaMethod, total),
+        }))
+      : null;
+  let length = 0;
 
   return {
-    bpm,
-    confidence,
-    alternatives: Array.from(alternatives).slice(0, 3).sort((a, b) => a - b),
+    push(channels) {
+      const { data } = downmixChannels(channels, strategy);
+      onsets.push(data);
+      attacks.push(data);
+      chroma.push(data);
+      sample.push(data);
+      head.push(data);
+      tail.push(data);
+      loudness.push(channels);
+      channelTrackers?.forEach((tracker, i) => {
+        tracker.onsets.push(channels[i]);
+        tracker.chroma.push(channels[i]);
+      });
+      length += data.length;
+    },
+
+    envelope: () => onsets.envelope(),
+    chroma: () => chroma.chroma(),
+
+    features(sourceDuration) {
+      const envelope = onsets.envelope();
+      return {
+        sampleRate,
+        channelCount,
+        strategy,
+        duration: length / sampleRate,
+        sourceDuration,
+        envelope,
+        chroma: chroma.chroma(),
+        onsets: detectOnsets(envelope, attacks.attacks(envelope.values.length)),
+        loudness: loudness.result(),
+        sampleFeatures: sample.features(),
+        oneShot: sample.oneShot(),
+        edges: { length, head: head.excerpts()[0], tail: tail.tail() },
+        channelFeatures: channelTrackers?.map((tracker) => ({
+          envelope: tracker.onsets.envelope(),
+          chroma: tracker.chroma.chroma(),
+        })),
+      };
+    },
   };
 }
 
-export async function analyzeAudio(file: File): Promise<AnalysisResult> {
-  const audioContext = new AudioContext();
+// Everything after the features
+export function completeAnalysis(
+  features: AnalysisFeatures,
+  {
+    onProgress,
+    keyProfile = DEFAULT_ANALYSIS_SETTINGS.keyProfile,
+    chromaMethod = DEFAULT_ANALYSIS_SETTINGS.chromaMethod,
+    prior = DEFAULT_ANALYSIS_SETTINGS.prior,
+  }: AnalyzePCMOptions = {}
+): AnalysisResult {
+  const { sampleRate, envelope, chroma, onsets, sampleFeatures, oneShot } = features;
+  const rawTempo = applyTempoPrior(detectBPM(envelope), prior.bpm);
+  const beats = trackBeats(envelope, rawTempo.bpm, onProgress);
+  const tempo = refineBPMFromBeats(rawTempo, beats);
+  const drift = analyzeTempoDrift(beats, tempo.bpm);
+  const meterCandidates = detectMeter(envelope, tempo.bpm, beats);
+  const beatGrid = groupBars(envelope, beats, meterCandidates[0].beatsPerBar);
+  const timeline = detectKeyTimeline(chroma, keyProfile);
+  const keyCandidates = applyKeyPrior(detectKey(chroma, keyProfile), prior.key);
+  const sampleType = classifySampleType(sampleFeatures);
+  const rootNote = sampleType === "one-shot" && oneShot ? detectRootNote(oneShot, sampleRate) : null;
+  // A loop cut short by maxDuration would get loop points at the cut, not at its real end
+  const truncated = features.duration < features.sourceDuration;
+  const loop =
+    sampleType === "loop" && !truncated
+      ? checkLoop(features.edges, sampleRate, tempo.bpm, beatGrid.beatsPerBar, onsets)
+      : null;
+
+  const result: AnalysisResult = {
+    ...toTempoFields(tempo),
+    duration: features.duration,
+    sourceDuration: features.sourceDuration,
+    sampleRate,
+    channelCount: features.channelCount,
+    keyCandidates,
+    channelStrategy: features.strategy,
+    keyTimeline: timeline.segments,
+    keyModulations: timeline.modulations,
+    beatGrid,
+    meterCandidates,
+    tempoCurve: drift.curve,
+    tempoDrift: drift.driftPercent,
+    tempoStability: drift.stability,
+    keyProfile,
+    chromaMethod,
+    keyProfileAgreement: agreeingProfiles(chroma, keyCandidates[0]),
+    tuningCents: chroma.tuningCents,
+    tuningReference: Math.round(tuningReference(chroma.tuningCents) * 10) / 10,
+    chords: detectChords(chroma, beats),
+    loudness: features.loudness,
+    onsets,
+    sampleType,
+    rootNote,
+    sampleClass: classifySample(sampleFeatures, sampleType, rootNote),
+    loop,
+  };
 
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+  if (features.channelFeatures) {
+    result.channelResults = features.channelFeatures.map(({ envelope, chroma }, i) => ({
+      channel: channelLabel(i, features.channelCount),
+      ...estimateTempoAndKey(envelope, chroma, keyProfile, prior),
+    }));
+  }
 
-    const bpmResult = detectBPM(audioBuffer);
-    const keyCandidates = detectKey(audioBuffer);
+  return result;
+}
 
-    return {
-      bpm: bpmResult.bpm,
-      bpmConfidence: bpmResult.confidence,
-      bpmAlternatives: bpmResult.alternatives,
-      keyCandidates,
-    };
-  } finally {
-    await audioContext.close();
+const ANALYSIS_BLOCK_SECONDS = 10;
+
+// Runs the full analysis synchronously. Environment-agnostic entry point; the browser
+// streams blocks to a worker instead (see streaming-analysis.ts and analyze-audio.ts)
+export function analyzePCM(input: PCMInput, options: AnalyzePCMOptions = {}): AnalysisResult {
+  const { maxDuration = DEFAULT_ANALYSIS_SETTINGS.maxDuration } = options;
+  validatePCMInput(input);
+  const frameCount = input.channels[0].length;
+  const length = cappedLength(frameCount, input.sampleRate, maxDuration);
+  const tracker = createFeatureTracker(input.sampleRate, input.channels.length, length, options);
+  // Views, not copies, in blocks so the trackers' working buffers stay small; the features
+  // don't depend on how the signal is split
+  const blockLength = Math.round(ANALYSIS_BLOCK_SECONDS * input.sampleRate);
+  for (let start = 0; start < length; start += blockLength) {
+    const end = Math.min(length, start + blockLength);
+    tracker.push(input.channels.map((channel) => channel.subarray(start, end)));
   }
+  return completeAnalysis(tracker.features(frameCount / input.sampleRate), options);
 }
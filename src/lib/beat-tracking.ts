@@ -0,0 +1,124 @@
+import { createStageReporter, ProgressCallback } from "./progress";
+import { OnsetEnvelope } from "./tempo-detection";
+
+export interface BeatGrid {
+  beats: number[]; // seconds
+  bars: number[]; // seconds, the downbeat starting each bar
+  firstDownbeat: number; // seconds
+  beatsPerBar: number;
+}
+
+// How strongly beat spacing is held to the tempo period (Ellis' "tightness")
+const TIGHTNESS = 100;
+
+// Dynamic-programming beat tracker (Ellis 2007): each frame's score is its onset strength plus
+// the best predecessor score, penalized by how far that gap strays from the tempo period.
+// Backtracking from the best final frame yields the beat times, in seconds.
+export function trackBeats(envelope: OnsetEnvelope, bpm: number, onProgress?: ProgressCallback): number[] {
+  const onsets = envelope.values;
+  const n = onsets.length;
+  const period = (60 / bpm) * envelope.frameRate;
+  const report = createStageReporter("beats", n, onProgress);
+
+  if (n === 0 || period < 1) {
+    report(n);
+    return [];
+  }
+
+  // Scale onsets by their standard deviation so the tightness penalty is level-independent
+  let mean = 0;
+  for (const value of onsets) mean += value;
+  mean /= n;
+  let variance = 0;
+  for (const value of onsets) variance += (value - mean) ** 2;
+  const std = Math.sqrt(variance / n) || 1;
+
+  const score = new Float64Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  const minGap = Math.max(1, Math.round(period / 2));
+  const maxGap = Math.round(period * 2);
+
+  for (let t = 0; t < n; t++) {
+    report(t);
+    let best = -Infinity;
+    let bestPrev = -1;
+
+    for (let prev = Math.max(0, t - maxGap); prev <= t - minGap; prev++) {
+      const deviation = Math.log((t - prev) / period);
+      const candidate = score[prev] - TIGHTNESS * deviation * deviation;
+      if (candidate > best) {
+        best = candidate;
+        bestPrev = prev;
+      }
+    }
+
+    const local = onsets[t] / std;
+    if (bestPrev >= 0 && best > 0) {
+      score[t] = local + best;
+      backlink[t] = bestPrev;
+    } else {
+      score[t] = local;
+    }
+  }
+  report(n);
+
+  // The last beat is the best-scoring frame within one period of the end
+  let last = n - 1;
+  for (let t = Math.max(0, n - Math.ceil(period)); t < n; t++) {
+    if (score[t] > score[last]) last = t;
+  }
+
+  const beatFrames: number[] = [];
+  for (let t = last; t >= 0; t = backlink[t]) {
+    beatFrames.push(t);
+  }
+  beatFrames.reverse();
+
+  return beatFrames.map((frame) => envelope.timeOffset + frame / envelope.frameRate);
+}
+
+// Onset strength at a beat: the envelope peak within a couple of frames, which absorbs
+// the tracker's frame quantization
+export function beatStrengths(envelope: OnsetEnvelope, beats: number[], onsets = envelope.values): number[] {
+  return beats.map((time) => {
+    const frame = Math.round((time - envelope.timeOffset) * envelope.frameRate);
+    let peak = 0;
+    for (let f = Math.max(0, frame - 2); f <= Math.min(onsets.length - 1, frame + 2); f++) {
+      peak = Math.max(peak, onsets[f]);
+    }
+    return peak;
+  });
+}
+
+// Groups beats into bars. The downbeat phase is the bar position whose beats carry the
+// most onset energy on average, with low-band onsets (kicks, bass) counting double.
+export function groupBars(envelope: OnsetEnvelope, beats: number[], beatsPerBar: number): BeatGrid {
+  const full = beatStrengths(envelope, beats);
+  const low = beatStrengths(envelope, beats, envelope.lowValues);
+  const strengths = full.map((strength, i) => strength + 2 * low[i]);
+
+  let bestPhase = 0;
+  let bestStrength = -Infinity;
+  for (let phase = 0; phase < Math.min(beatsPerBar, beats.length); phase++) {
+    let sum = 0;
+    let count = 0;
+    for (let i = phase; i < beats.length; i += beatsPerBar) {
+      sum += strengths[i];
+      count++;
+    }
+    const strength = sum / count;
+    if (strength > bestStrength) {
+      bestStrength = strength;
+      bestPhase = phase;
+    }
+  }
+
+  const bars = beats.filter((_, i) => i >= bestPhase && (i - bestPhase) % beatsPerBar === 0);
+
+  return {
+    beats,
+    bars,
+    firstDownbeat: bars[0] ?? 0,
+    beatsPerBar,
+  };
+}
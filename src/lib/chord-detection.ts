@@ -0,0 +1,179 @@
+import { maxOf, pearsonCorrelation } from "./dsp";
+import { ChromaFrames, KEY_NAMES } from "./key-detection";
+
+export type ChordQuality = "major" | "minor" | "7" | "sus2" | "sus4" | "dim";
+
+export interface Chord {
+  start: number; // seconds
+  end: number;
+  root: string;
+  quality: ChordQuality;
+  confidence: number; // 0 to 1, mean template correlation over the chord's span
+}
+
+// Semitones above the root
+export const CHORD_INTERVALS: Record<ChordQuality, number[]> = {
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  "7": [0, 4, 7, 10],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  dim: [0, 3, 6],
+};
+
+const CHORD_SUFFIXES: Record<ChordQuality, string> = {
+  major: "",
+  minor: "m",
+  "7": "7",
+  sus2: "sus2",
+  sus4: "sus4",
+  dim: "dim",
+};
+
+const QUALITIES = Object.keys(CHORD_INTERVALS) as ChordQuality[];
+
+// Without a beat grid, chords are estimated on fixed windows of this length (seconds)
+const FALLBACK_SEGMENT = 0.5;
+// Score a segment must beat to be labelled with a chord rather than "no chord"
+const NO_CHORD_SCORE = 0.3;
+// Segments quieter than this fraction of the loudest one are silence
+const SILENCE_RATIO = 1e-3;
+// Score cost of changing chord between consecutive segments
+const CHANGE_PENALTY = 0.15;
+
+export function formatChord(chord: { root: string; quality: ChordQuality }): string {
+  return `${chord.root}${CHORD_SUFFIXES[chord.quality]}`;
+}
+
+// Pitch classes (0 = C) of a chord's tones, root first
+export function chordPitchClasses(chord: { root: string; quality: ChordQuality }): number[] {
+  const root = KEY_NAMES.indexOf(chord.root);
+  return CHORD_INTERVALS[chord.quality].map((interval) => (root + interval) % 12);
+}
+
+interface ChordTemplate {
+  root: string;
+  quality: ChordQuality;
+  profile: number[];
+}
+
+const TEMPLATES: ChordTemplate[] = KEY_NAMES.flatMap((root, rootIndex) =>
+  QUALITIES.map((quality) => {
+    const profile = new Array(12).fill(0);
+    for (const interval of CHORD_INTERVALS[quality]) {
+      profile[(rootIndex + interval) % 12] = 1;
+    }
+    return { root, quality, profile };
+  })
+);
+
+// Segment boundaries: one segment per beat, plus the lead-in before the first beat and the
+// tail after the last
+function segmentBoundaries(beats: number[], duration: number): number[] {
+  const times = beats.length >= 2
+    ? [0, ...beats, duration]
+    : Array.from({ length: Math.ceil(duration / FALLBACK_SEGMENT) + 1 }, (_, i) => Math.min(duration, i * FALLBACK_SEGMENT));
+
+  const boundaries: number[] = [];
+  for (const time of times) {
+    if (time > duration) break;
+    if (boundaries.length === 0 || time > boundaries[boundaries.length - 1]) boundaries.push(time);
+  }
+  if (boundaries[boundaries.length - 1] < duration) boundaries.push(duration);
+  return boundaries;
+}
+
+// Mean chroma of the frames centred inside [start, end), or of the nearest frame when the
+// span is shorter than a hop
+function segmentChroma(chroma: ChromaFrames, start: number, end: number): number[] {
+  const { frames, hopSeconds, timeOffset } = chroma;
+  const first = Math.max(0, Math.ceil((start - timeOffset) / hopSeconds));
+  const last = Math.min(frames.length, Math.ceil((end - timeOffset) / hopSeconds));
+  const from = last > first ? first : Math.min(frames.length - 1, Math.max(0, Math.round(((start + end) / 2 - timeOffset) / hopSeconds)));
+  const to = last > first ? last : from + 1;
+
+  const sum = new Array(12).fill(0);
+  for (let f = from; f < to; f++) {
+    for (let i = 0; i < 12; i++) {
+      sum[i] += frames[f][i];
+    }
+  }
+  return sum.map((value) => value / (to - from));
+}
+
+// Beat-synchronous chord estimation: each segment's chroma is correlated with binary chord
+// templates, then a Viterbi pass picks the best-scoring sequence with a penalty per change,
+// so one-beat flickers don't split a held chord. Consecutive segments with the same chord
+// are merged; "no chord" spans (silence, drums) are left out.
+export function detectChords(chroma: ChromaFrames, beats: number[]): Chord[] {
+  if (chroma.frames.length === 0 || chroma.duration <= 0) return [];
+
+  const boundaries = segmentBoundaries(beats, chroma.duration);
+  const segmentCount = boundaries.length - 1;
+  const segments = Array.from({ length: segmentCount }, (_, i) => segmentChroma(chroma, boundaries[i], boundaries[i + 1]));
+  const energies = segments.map((segment) => segment.reduce((sum, value) => sum + value, 0));
+  const maxEnergy = maxOf(energies);
+
+  // State TEMPLATES.length is "no chord"
+  const noChord = TEMPLATES.length;
+  const stateCount = TEMPLATES.length + 1;
+  const scores = segments.map((segment, i) => {
+    const silent = energies[i] <= maxEnergy * SILENCE_RATIO;
+    const row = new Float64Array(stateCount);
+    for (let s = 0; s < TEMPLATES.length; s++) {
+      row[s] = silent ? 0 : pearsonCorrelation(TEMPLATES[s].profile, segment);
+    }
+    row[noChord] = silent ? 1 : NO_CHORD_SCORE;
+    return row;
+  });
+
+  let total = Float64Array.from(scores[0]);
+  const backlinks: Int32Array[] = [];
+  for (let i = 1; i < segmentCount; i++) {
+    let best = 0;
+    for (let s = 1; s < stateCount; s++) {
+      if (total[s] > total[best]) best = s;
+    }
+
+    const next = new Float64Array(stateCount);
+    const backlink = new Int32Array(stateCount);
+    for (let s = 0; s < stateCount; s++) {
+      const stay = total[s];
+      const change = total[best] - CHANGE_PENALTY;
+      backlink[s] = stay >= change ? s : best;
+      next[s] = Math.max(stay, change) + scores[i][s];
+    }
+    backlinks.push(backlink);
+    total = next;
+  }
+
+  const path = new Int32Array(segmentCount);
+  for (let s = 1; s < stateCount; s++) {
+    if (total[s] > total[path[segmentCount - 1]]) path[segmentCount - 1] = s;
+  }
+  for (let i = segmentCount - 1; i > 0; i--) {
+    path[i - 1] = backlinks[i - 1][path[i]];
+  }
+
+  const chords: Chord[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= segmentCount; i++) {
+    if (i < segmentCount && path[i] === path[runStart]) continue;
+
+    const state = path[runStart];
+    if (state !== noChord) {
+      let score = 0;
+      for (let j = runStart; j < i; j++) score += scores[j][state];
+      chords.push({
+        start: boundaries[runStart],
+        end: boundaries[i],
+        root: TEMPLATES[state].root,
+        quality: TEMPLATES[state].quality,
+        confidence: Math.max(0, Math.min(1, score / (i - runStart))),
+      });
+    }
+    runStart = i;
+  }
+
+  return chords;
+}
@@ -0,0 +1,10 @@
+// Saves a blob through a temporary link. The object URL is revoked once the browser has
+// had time to start the download.
+export function downloadBlob(blob: Blob, name: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,106 @@
+export function pearsonCorrelation(a: number[], b: number[]): number {
+  const n = a.length;
+  let sumA = 0, sumB = 0, sumAB = 0, sumA2 = 0, sumB2 = 0;
+
+  for (let i = 0; i < n; i++) {
+    sumA += a[i];
+    sumB += b[i];
+    sumAB += a[i] * b[i];
+    sumA2 += a[i] * a[i];
+    sumB2 += b[i] * b[i];
+  }
+
+  const num = n * sumAB - sumA * sumB;
+  const den = Math.sqrt((n * sumA2 - sumA * sumA) * (n * sumB2 - sumB * sumB));
+  return den === 0 ? 0 : num / den;
+}
+
+// Largest value, or `floor` if none is larger. A loop: spreading one value per block of a long
+// file into Math.max overflows the stack.
+export function maxOf(values: ArrayLike<number>, floor = -Infinity): number {
+  let max = floor;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i];
+  }
+  return max;
+}
+
+// Index of the sign change closest to `index` within `radius` samples, or `index` itself if
+// there is none. Cutting there avoids clicks.
+export function nearestZeroCrossing(data: Float32Array, index: number, radius: number): number {
+  for (let offset = 0; offset <= radius; offset++) {
+    for (const i of [index - offset, index + offset]) {
+      if (i <= 0 || i >= data.length) continue;
+      if (data[i] === 0 || (data[i - 1] < 0) !== (data[i] < 0)) return i;
+    }
+  }
+  return Math.max(0, Math.min(data.length, index));
+}
+
+// RMS of consecutive, non-overlapping blocks; a coarse level envelope
+export function rmsEnvelope(data: Float32Array, blockSize: number): number[] {
+  const levels: number[] = [];
+  for (let start = 0; start + blockSize <= data.length; start += blockSize) {
+    let sum = 0;
+    for (let i = start; i < start + blockSize; i++) {
+      sum += data[i] * data[i];
+    }
+    levels.push(Math.sqrt(sum / blockSize));
+  }
+  return levels;
+}
+
+// Copies of a few fixed ranges of a signal that arrives in blocks, for detectors that only
+// look at parts of it
+export interface ExcerptRecorder {
+  push(block: Float32Array): void;
+  excerpts(): Float32Array[]; // One per range, cut short where the signal hasn't reached
+}
+
+export function createExcerptRecorder(ranges: { start: number; end: number }[]): ExcerptRecorder {
+  const buffers = ranges.map(({ start, end }) => new Float32Array(Math.max(0, end - start)));
+  let received = 0;
+
+  return {
+    push(block) {
+      const blockStart = received;
+      received += block.length;
+      ranges.forEach(({ start, end }, i) => {
+        const from = Math.max(start, blockStart);
+        const to = Math.min(end, received);
+        if (from < to) buffers[i].set(block.subarray(from - blockStart, to - blockStart), from - start);
+      });
+    },
+
+    excerpts() {
+      return ranges.map(({ start }, i) => buffers[i].subarray(0, Math.max(0, Math.min(buffers[i].length, received - start))));
+    },
+  };
+}
+
+// The last `size` samples of a signal that arrives in blocks
+export interface TailRecorder {
+  push(block: Float32Array): void;
+  tail(): Float32Array; // Shorter than `size` until that much has arrived
+}
+
+export function createTailRecorder(size: number): TailRecorder {
+  const buffer = new Float32Array(size);
+  let filled = 0;
+
+  return {
+    push(block) {
+      if (block.length >= size) {
+        buffer.set(block.subarray(block.length - size));
+      } else {
+        buffer.copyWithin(0, block.length);
+        buffer.set(block, size - block.length);
+      }
+      filled = Math.min(size, filled + block.length);
+    },
+
+    tail() {
+      return buffer.subarray(size - filled);
+    },
+  };
+}
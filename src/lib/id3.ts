@@ -0,0 +1,97 @@
+import { readId, toDataView } from "./pcm-decoder";
+
+// ID3v2 basics shared by the tag writer and the metadata reader
+
+export const ID3_HEADER_SIZE = 10;
+const ID3_FLAG_UNSYNCHRONISATION = 0x80;
+const ID3_FLAG_EXTENDED_HEADER = 0x40;
+const ID3_FLAG_FOOTER = 0x10;
+
+export interface ID3Frame {
+  id: string; // "TBPM"; three characters in v2.2 ("TBP")
+  raw: Uint8Array; // Header and body, as stored
+  body: Uint8Array;
+}
+
+// ID3 sizes use 7 bits per byte
+function readSyncsafe(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] & 0x7f) << 21) |
+    ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) |
+    (bytes[offset + 3] & 0x7f)
+  );
+}
+
+export function syncsafe(value: number): Uint8Array {
+  return Uint8Array.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+}
+
+// Length the ID3v2 tag at the start of the bytes declares, which may run past them; 0 when
+// there is none
+export function declaredID3Length(bytes: Uint8Array): number {
+  if (bytes.length < ID3_HEADER_SIZE || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0;
+  const footer = bytes[5] & ID3_FLAG_FOOTER ? ID3_HEADER_SIZE : 0;
+  return ID3_HEADER_SIZE + readSyncsafe(bytes, 6) + footer;
+}
+
+// Length of the ID3v2 tag at the start of the bytes, 0 when there is none
+export function id3TagLength(bytes: Uint8Array): number {
+  return Math.min(bytes.length, declaredID3Length(bytes));
+}
+
+// Splits a whole tag (header included) into frames. Frame sizes are syncsafe from v2.4 on,
+// plain before; v2.2 has six-byte frame headers.
+export function readID3Frames(tag: Uint8Array): { version: number; frames: ID3Frame[] } {
+  const version = tag[3];
+  const flags = tag[5];
+  if (version < 2 || version > 4) {
+    throw new Error(`Unknown ID3 version 2.${version}`);
+  }
+  if (flags & ID3_FLAG_UNSYNCHRONISATION) {
+    throw new Error("Unsynchronised ID3 tags aren't supported");
+  }
+
+  const end = Math.min(tag.length, ID3_HEADER_SIZE + readSyncsafe(tag, 6));
+  const view = toDataView(tag);
+  const idLength = version === 2 ? 3 : 4;
+  const headerSize = version === 2 ? 6 : ID3_HEADER_SIZE;
+  let offset = ID3_HEADER_SIZE;
+  if (version > 2 && flags & ID3_FLAG_EXTENDED_HEADER) {
+    // v2.4 counts the size field in the extended header's size, v2.3 doesn't
+    offset += version === 4 ? readSyncsafe(tag, offset) : 4 + view.getUint32(offset);
+  }
+
+  const frames: ID3Frame[] = [];
+  while (offset + headerSize <= end) {
+    const id = readId(view, offset).slice(0, idLength);
+    // Padding, or anything past the last frame
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+    const size =
+      version === 2
+        ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+        : version === 4
+          ? readSyncsafe(tag, offset + 4)
+          : view.getUint32(offset + 4);
+    const frameEnd = Math.min(end, offset + headerSize + size);
+    frames.push({ id, raw: tag.subarray(offset, frameEnd), body: tag.subarray(offset + headerSize, frameEnd) });
+    offset = frameEnd;
+  }
+  return { version, frames };
+}
+
+const TEXT_ENCODINGS = ["latin1", "utf-16", "utf-16be", "utf-8"];
+
+// Text frame body: an encoding byte, then the text. Only the first value of a
+// multi-value (null-separated) frame is returned.
+export function decodeID3Text(body: Uint8Array): string {
+  const encoding = TEXT_ENCODINGS[body[0]] ?? "latin1";
+  let text = body.subarray(1);
+  // "utf-16" means a byte order mark decides
+  let label = encoding;
+  if (encoding === "utf-16") {
+    label = text[0] === 0xfe && text[1] === 0xff ? "utf-16be" : "utf-16le";
+    if ((text[0] === 0xff && text[1] === 0xfe) || (text[0] === 0xfe && text[1] === 0xff)) text = text.subarray(2);
+  }
+  return new TextDecoder(label).decode(text).split("\0")[0].trim();
+}
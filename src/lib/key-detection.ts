@@ -0,0 +1,459 @@
+import { pearsonCorrelation } from "./dsp";
+import { KeyProfile, KeyProfileChoice, KeyProfileId, KEY_PROFILES, KEY_PROFILE_IDS } from "./key-profiles";
+import { createStageReporter, ProgressCallback } from "./progress";
+import { createFrameStream, createSTFT } from "./stft";
+
+export const KEY_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+export type KeyMode = "major" | "minor";
+
+export interface KeyCandidate {
+  key: string;
+  mode: KeyMode;
+  confidence: number;
+}
+
+export interface KeySegment {
+  start: number; // seconds
+  end: number;
+  key: string;
+  mode: KeyMode;
+  confidence: number; // 0 to 1, profile correlation of the winning key
+  candidates: KeyCandidate[];
+}
+
+export interface KeyModulation {
+  time: number; // seconds
+  from: { key: string; mode: KeyMode };
+  to: { key: string; mode: KeyMode };
+}
+
+// A key given from outside the audio, e.g. a tag. Without a mode it stands for either.
+export interface KeyPrior {
+  key: string;
+  mode: KeyMode | null;
+}
+
+export interface KeyTimeline {
+  segments: KeySegment[];
+  modulations: KeyModulation[];
+}
+
+// How spectra become pitch classes: "fft" adds each bin's energy to its nearest pitch class;
+// "hpcp" uses whitened, harmonically weighted spectral peaks
+export type ChromaMethod = "fft" | "hpcp";
+
+export const CHROMA_METHODS: ChromaMethod[] = ["fft", "hpcp"];
+
+// Per-frame pitch-class energy, kept so the whole-file key and the timeline share one STFT
+export interface ChromaFrames {
+  frames: Float32Array[];
+  hopSeconds: number;
+  timeOffset: number; // Time in seconds of frames[0], its centre
+  duration: number; // seconds
+  tuningCents: number; // Offset from A=440 the frames were folded with, -50 to 50
+}
+
+interface KeyCorrelation {
+  key: string;
+  mode: KeyMode;
+  correlation: number;
+}
+
+// Candidate confidences run from 1 (top) to 0 (sixth); a prior only promotes a key from the
+// upper half
+const KEY_PRIOR_MIN_CONFIDENCE = 0.5;
+
+// Seconds of audio per timeline window, and the step between windows
+const TIMELINE_WINDOW = 8;
+const TIMELINE_HOP = 4;
+
+// Chroma is first gathered at 10-cent resolution so it can be folded into pitch classes
+// once the tuning is known
+const FINE_BINS_PER_SEMITONE = 10;
+const FINE_BINS = 12 * FINE_BINS_PER_SEMITONE;
+
+function midiNote(freq: number): number {
+  return 12 * Math.log2(freq / 440) + 69;
+}
+
+export function tuningReference(tuningCents: number): number {
+  return 440 * 2 ** (tuningCents / 1200);
+}
+
+interface SpectralPeak {
+  freq: number;
+  magnitude: number;
+}
+
+// Local spectrum maxima between minFreq and maxFreq. Parabolic interpolation on log
+// magnitude locates each peak between bins.
+function findPeaks(
+  magnitude: Float32Array,
+  binHz: number,
+  minFreq: number,
+  maxFreq: number,
+  floor: number
+): SpectralPeak[] {
+  const peaks: SpectralPeak[] = [];
+  const first = Math.max(1, Math.ceil(minFreq / binHz));
+  const last = Math.min(magnitude.length - 2, Math.floor(maxFreq / binHz));
+
+  for (let bin = first; bin <= last; bin++) {
+    const value = magnitude[bin];
+    if (value <= floor || value <= magnitude[bin - 1] || value < magnitude[bin + 1]) continue;
+    const a = Math.log(magnitude[bin - 1] + 1e-12);
+    const b = Math.log(value + 1e-12);
+    const c = Math.log(magnitude[bin + 1] + 1e-12);
+    const denominator = a - 2 * b + c;
+    const offset = denominator === 0 ? 0 : (0.5 * (a - c)) / denominator;
+    peaks.push({ freq: (bin + offset) * binHz, magnitude: value });
+  }
+  return peaks;
+}
+
+// HPCP settings (Gómez 2006): peaks up to 5 kHz, each also credited to the fundamentals it
+// could be a harmonic of, spread over a 4/3-semitone cos² window in log frequency
+const HPCP_MIN_FREQ = 50;
+const HPCP_MAX_FREQ = 5000;
+const HPCP_HARMONICS = 4;
+const HPCP_HARMONIC_DECAY = 0.6;
+const HPCP_WINDOW_SEMITONES = 4 / 3;
+const HPCP_PEAK_FLOOR_DB = -60;
+
+// Whitening divides each peak by the square root of the mean magnitude within an octave
+// either side, so spectral tilt stops favouring the bass register. Full whitening (or a
+// narrower window) flattens a note's own harmonics to the level of its fundamental and lets
+// overtones outvote it.
+const WHITENING_OCTAVES = 1;
+
+function spectralEnvelope(magnitude: Float32Array): (bin: number) => number {
+  const prefix = new Float64Array(magnitude.length + 1);
+  for (let i = 0; i < magnitude.length; i++) {
+    prefix[i + 1] = prefix[i] + magnitude[i];
+  }
+  const ratio = 2 ** WHITENING_OCTAVES;
+  return (bin) => {
+    const from = Math.max(0, Math.min(bin - 8, Math.floor(bin / ratio)));
+    const to = Math.min(magnitude.length, Math.max(bin + 9, Math.ceil(bin * ratio) + 1));
+    return (prefix[to] - prefix[from]) / (to - from);
+  };
+}
+
+function hpcpFrame(magnitude: Float32Array, binHz: number): Float32Array {
+  const fine = new Float32Array(FINE_BINS);
+  let peakMagnitude = 0;
+  for (const value of magnitude) peakMagnitude = Math.max(peakMagnitude, value);
+  if (peakMagnitude === 0) return fine;
+
+  const envelope = spectralEnvelope(magnitude);
+  const floor = peakMagnitude * 10 ** (HPCP_PEAK_FLOOR_DB / 20);
+  const halfWindow = HPCP_WINDOW_SEMITONES / 2;
+  const slotSpan = Math.ceil(halfWindow * FINE_BINS_PER_SEMITONE);
+
+  for (const peak of findPeaks(magnitude, binHz, HPCP_MIN_FREQ, HPCP_MAX_FREQ, floor)) {
+    const whitened = peak.magnitude / Math.sqrt(envelope(Math.round(peak.freq / binHz)) + 1e-12);
+    const energy = whitened * whitened;
+
+    for (let harmonic = 1; harmonic <= HPCP_HARMONICS; harmonic++) {
+      const fundamental = peak.freq / harmonic;
+      if (fundamental < HPCP_MIN_FREQ) break;
+      const weight = energy * HPCP_HARMONIC_DECAY ** (harmonic - 1);
+      const pitch = midiNote(fundamental) * FINE_BINS_PER_SEMITONE;
+      const center = Math.round(pitch);
+
+      for (let slot = center - slotSpan; slot <= center + slotSpan; slot++) {
+        const distance = (slot - pitch) / FINE_BINS_PER_SEMITONE;
+        if (Math.abs(distance) > halfWindow) continue;
+        const kernel = Math.cos((Math.PI * distance) / HPCP_WINDOW_SEMITONES) ** 2;
+        fine[((slot % FINE_BINS) + FINE_BINS) % FINE_BINS] += weight * kernel;
+      }
+    }
+  }
+  return fine;
+}
+
+const CHROMA_FFT_SIZE = 8192;
+const CHROMA_HOP_SIZE = 4096;
+
+// Gathers chroma as samples arrive, like the onset tracker. Frames are kept at fine
+// resolution until asked for, since the tuning they are folded around can still move.
+export interface ChromaTracker {
+  push(block: Float32Array): void; // The next samples; the block isn't kept
+  chroma(): ChromaFrames; // So far, folded at the tuning estimated so far
+}
+
+// `total` is the length the data will reach, for progress
+export function createChromaTracker(
+  sampleRate: number,
+  method: ChromaMethod,
+  total: number,
+  onProgress?: ProgressCallback
+): ChromaTracker {
+  const fftSize = CHROMA_FFT_SIZE;
+  const hopSize = CHROMA_HOP_SIZE;
+  const binHz = sampleRate / fftSize;
+  const stft = createSTFT(fftSize);
+  const frames = createFrameStream(fftSize, hopSize);
+  const report = createStageReporter("key", total - fftSize, onProgress);
+  const fineFrames: Float32Array[] = [];
+  let length = 0;
+
+  // Focus on mid frequencies; each bin maps to a fine pitch-class slot (-1 outside the range)
+  const fineBin = new Int32Array(fftSize / 2).fill(-1);
+  for (let bin = 1; bin < fineBin.length; bin++) {
+    const freq = bin * binHz;
+    if (freq < 60 || freq > 2000) continue;
+    const slot = Math.round(midiNote(freq) * FINE_BINS_PER_SEMITONE);
+    fineBin[bin] = ((slot % FINE_BINS) + FINE_BINS) % FINE_BINS;
+  }
+
+  // Tuning is the circular mean of spectral peaks' deviation from the nearest semitone,
+  // weighted by peak energy
+  let tuningCos = 0;
+  let tuningSin = 0;
+
+  return {
+    push(block) {
+      length += block.length;
+      frames.push(block, (data, offset, start) => {
+        report(start);
+        const magnitude = stft.spectrum(data, offset);
+
+        for (const peak of findPeaks(magnitude, binHz, 60, 2000, 0)) {
+          const note = midiNote(peak.freq);
+          const angle = 2 * Math.PI * (note - Math.round(note));
+          const energy = peak.magnitude * peak.magnitude;
+          tuningCos += energy * Math.cos(angle);
+          tuningSin += energy * Math.sin(angle);
+        }
+
+        if (method === "hpcp") {
+          fineFrames.push(hpcpFrame(magnitude, binHz));
+        } else {
+          const fine = new Float32Array(FINE_BINS);
+          for (let bin = 1; bin < magnitude.length; bin++) {
+            if (fineBin[bin] >= 0) fine[fineBin[bin]] += magnitude[bin] * magnitude[bin];
+          }
+          fineFrames.push(fine);
+        }
+      });
+      if (length >= total) report(total);
+    },
+
+    chroma() {
+      const tuningSemitones = tuningCos === 0 && tuningSin === 0 ? 0 : Math.atan2(tuningSin, tuningCos) / (2 * Math.PI);
+
+      // Fold the fine slots into pitch classes centred on the estimated tuning
+      const pitchClass = new Int32Array(FINE_BINS);
+      for (let slot = 0; slot < FINE_BINS; slot++) {
+        const tuned = Math.round(slot / FINE_BINS_PER_SEMITONE - tuningSemitones);
+        pitchClass[slot] = ((tuned % 12) + 12) % 12;
+      }
+
+      const frames = fineFrames.map((fine) => {
+        const chroma = new Float32Array(12);
+        for (let slot = 0; slot < FINE_BINS; slot++) {
+          chroma[pitchClass[slot]] += fine[slot];
+        }
+        return chroma;
+      });
+
+      return {
+        frames,
+        hopSeconds: hopSize / sampleRate,
+        timeOffset: fftSize / 2 / sampleRate,
+        duration: length / sampleRate,
+        tuningCents: Math.round(tuningSemitones * 1000) / 10,
+      };
+    },
+  };
+}
+
+export function computeChroma(
+  data: Float32Array,
+  sampleRate: number,
+  method: ChromaMethod,
+  onProgress?: ProgressCallback
+): ChromaFrames {
+  const tracker = createChromaTracker(sampleRate, method, data.length, onProgress);
+  tracker.push(data);
+  return tracker.chroma();
+}
+
+function sumChroma(frames: Float32Array[], from = 0, to = frames.length): number[] {
+  const chroma = new Array(12).fill(0);
+  for (let f = from; f < to; f++) {
+    for (let i = 0; i < 12; i++) {
+      chroma[i] += frames[f][i];
+    }
+  }
+
+  // Normalize
+  const maxChroma = Math.max(...chroma);
+  if (maxChroma > 0) {
+    for (let i = 0; i < 12; i++) {
+      chroma[i] /= maxChroma;
+    }
+  }
+  return chroma;
+}
+
+// Correlation against every rotation of one profile, in key order (C major, C minor, C# major, ...)
+function correlateProfile(chroma: number[], profile: KeyProfile): KeyCorrelation[] {
+  const correlations: KeyCorrelation[] = [];
+
+  for (let shift = 0; shift < 12; shift++) {
+    const shiftedChroma: number[] = [];
+    for (let i = 0; i < 12; i++) {
+      shiftedChroma.push(chroma[(i + shift) % 12]);
+    }
+
+    const majorCorr = pearsonCorrelation(profile.major, shiftedChroma);
+    const minorCorr = pearsonCorrelation(profile.minor, shiftedChroma);
+
+    correlations.push({ key: KEY_NAMES[shift], mode: "major", correlation: majorCorr });
+    correlations.push({ key: KEY_NAMES[shift], mode: "minor", correlation: minorCorr });
+  }
+
+  return correlations;
+}
+
+// All 24 keys, sorted by profile correlation (descending). The ensemble ranks by the
+// mean correlation across every registered profile.
+function correlateKeys(chroma: number[], profile: KeyProfileChoice): KeyCorrelation[] {
+  if (profile !== "ensemble") {
+    return correlateProfile(chroma, KEY_PROFILES[profile]).sort((a, b) => b.correlation - a.correlation);
+  }
+
+  const perProfile = KEY_PROFILE_IDS.map((id) => correlateProfile(chroma, KEY_PROFILES[id]));
+  const correlations = perProfile[0].map((entry, i) => ({
+    ...entry,
+    correlation: perProfile.reduce((sum, profileCorrelations) => sum + profileCorrelations[i].correlation, 0) / perProfile.length,
+  }));
+  return correlations.sort((a, b) => b.correlation - a.correlation);
+}
+
+function toCandidates(correlations: KeyCorrelation[]): KeyCandidate[] {
+  // Convert correlations to confidence scores (softmax-like normalization)
+  const topCandidates = correlations.slice(0, 6);
+  const maxCorr = topCandidates[0].correlation;
+  const minCorr = topCandidates[topCandidates.length - 1].correlation;
+  const range = maxCorr - minCorr || 1;
+
+  return topCandidates.map((c) => ({
+    key: c.key,
+    mode: c.mode,
+    confidence: (c.correlation - minCorr) / range,
+  }));
+}
+
+export function detectKey(chroma: ChromaFrames, profile: KeyProfileChoice): KeyCandidate[] {
+  return toCandidates(correlateKeys(sumChroma(chroma.frames), profile));
+}
+
+// Moves the prior's key to the top when it is a strong enough candidate already; as with the
+// tempo prior, nothing the audio doesn't support gets in
+export function applyKeyPrior(candidates: KeyCandidate[], prior?: KeyPrior): KeyCandidate[] {
+  if (!prior) return candidates;
+  const index = candidates.findIndex((c) => c.key === prior.key && (prior.mode === null || c.mode === prior.mode));
+  if (index <= 0 || candidates[index].confidence < KEY_PRIOR_MIN_CONFIDENCE) return candidates;
+  return [candidates[index], ...candidates.filter((_, i) => i !== index)];
+}
+
+// The profiles whose own top key over the whole file matches the given key
+export function agreeingProfiles(chroma: ChromaFrames, key: { key: string; mode: KeyMode }): KeyProfileId[] {
+  const summed = sumChroma(chroma.frames);
+  return KEY_PROFILE_IDS.filter((id) => sameKey(correlateKeys(summed, id)[0], key));
+}
+
+function sameKey(a: { key: string; mode: KeyMode }, b: { key: string; mode: KeyMode }): boolean {
+  return a.key === b.key && a.mode === b.mode;
+}
+
+function buildSegment(
+  chroma: ChromaFrames,
+  profile: KeyProfileChoice,
+  fromFrame: number,
+  toFrame: number,
+  start: number,
+  end: number
+): KeySegment {
+  const correlations = correlateKeys(sumChroma(chroma.frames, fromFrame, toFrame), profile);
+  const top = correlations[0];
+  return {
+    start,
+    end,
+    key: top.key,
+    mode: top.mode,
+    confidence: Math.max(0, top.correlation),
+    candidates: toCandidates(correlations),
+  };
+}
+
+// Windowed key estimation. Each window is ranked on its own, isolated one-window blips are
+// smoothed out, and runs of the same key are merged and re-ranked as a whole segment.
+export function detectKeyTimeline(chroma: ChromaFrames, profile: KeyProfileChoice): KeyTimeline {
+  const { frames, hopSeconds, duration } = chroma;
+  const framesPerWindow = Math.max(1, Math.round(TIMELINE_WINDOW / hopSeconds));
+  const framesPerHop = Math.max(1, Math.round(TIMELINE_HOP / hopSeconds));
+
+  if (frames.length === 0) {
+    return { segments: [], modulations: [] };
+  }
+  if (frames.length <= framesPerWindow) {
+    return { segments: [buildSegment(chroma, profile, 0, frames.length, 0, duration)], modulations: [] };
+  }
+
+  const windows: { from: number; to: number; top: KeyCorrelation }[] = [];
+  for (let from = 0; from < frames.length; from += framesPerHop) {
+    const to = Math.min(frames.length, from + framesPerWindow);
+    windows.push({ from, to, top: correlateKeys(sumChroma(frames, from, to), profile)[0] });
+    if (to === frames.length) break;
+  }
+
+  // A single window that disagrees with two agreeing neighbours is treated as noise
+  for (let i = 1; i < windows.length - 1; i++) {
+    const prev = windows[i - 1].top;
+    const next = windows[i + 1].top;
+    if (sameKey(prev, next) && !sameKey(prev, windows[i].top)) {
+      windows[i].top = prev;
+    }
+  }
+
+  // Each window owns the span between the midpoints to its neighbours
+  const windowCenter = (w: { from: number; to: number }) => ((w.from + w.to) / 2) * hopSeconds;
+  const spanToSegment = (start: number, end: number) => {
+    const fromFrame = Math.min(frames.length - 1, Math.floor(start / hopSeconds));
+    const toFrame = Math.max(fromFrame + 1, Math.min(frames.length, Math.ceil(end / hopSeconds)));
+    return buildSegment(chroma, profile, fromFrame, toFrame, start, end);
+  };
+
+  const segments: KeySegment[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i <= windows.length; i++) {
+    if (i < windows.length && sameKey(windows[i].top, windows[runStart].top)) continue;
+
+    const start = runStart === 0 ? 0 : (windowCenter(windows[runStart - 1]) + windowCenter(windows[runStart])) / 2;
+    const end = i === windows.length ? duration : (windowCenter(windows[i - 1]) + windowCenter(windows[i])) / 2;
+    const segment = spanToSegment(start, end);
+
+    // Re-ranking a run as a whole can land on the same key as the previous segment
+    const prev = segments[segments.length - 1];
+    if (prev && sameKey(prev, segment)) {
+      segments[segments.length - 1] = spanToSegment(prev.start, end);
+    } else {
+      segments.push(segment);
+    }
+    runStart = i;
+  }
+
+  const modulations: KeyModulation[] = segments.slice(1).map((next, i) => ({
+    time: next.start,
+    from: { key: segments[i].key, mode: segments[i].mode },
+    to: { key: next.key, mode: next.mode },
+  }));
+
+  return { segments, modulations };
+}
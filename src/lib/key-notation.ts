@@ -0,0 +1,74 @@
+import { KeyMode, KEY_NAMES } from "./key-detection";
+
+// How key names are shown: sharp or flat spelling, or the DJ wheel codes
+export type KeyNotation = "sharps" | "flats" | "camelot" | "openkey";
+
+export const KEY_NOTATIONS: KeyNotation[] = ["sharps", "flats", "camelot", "openkey"];
+
+export interface CompatibleKey {
+  key: string;
+  mode: KeyMode;
+  relation: string;
+}
+
+const SHARP_TO_FLAT: Record<string, string> = {
+  "C#": "Db",
+  "D#": "Eb",
+  "F#": "Gb",
+  "G#": "Ab",
+  "A#": "Bb",
+};
+
+// Position of a key on the circle of fifths, 0 for C major / A minor. Relative keys share it.
+function fifthsPosition(key: string, mode: KeyMode): number {
+  const pitchClass = KEY_NAMES.indexOf(key);
+  const majorPitchClass = mode === "minor" ? (pitchClass + 3) % 12 : pitchClass;
+  return (majorPitchClass * 7) % 12;
+}
+
+// Inverse of fifthsPosition
+function keyAtPosition(position: number, mode: KeyMode): string {
+  const majorPitchClass = ((((position % 12) + 12) % 12) * 7) % 12;
+  const pitchClass = mode === "minor" ? (majorPitchClass + 9) % 12 : majorPitchClass;
+  return KEY_NAMES[pitchClass];
+}
+
+// Camelot wheel: C major is 8B, A minor 8A; each step clockwise is a fifth up
+export function camelotCode(key: string, mode: KeyMode): string {
+  return `${((fifthsPosition(key, mode) + 7) % 12) + 1}${mode === "minor" ? "A" : "B"}`;
+}
+
+// Open Key: C major is 1d, A minor 1m
+export function openKeyCode(key: string, mode: KeyMode): string {
+  return `${fifthsPosition(key, mode) + 1}${mode === "minor" ? "m" : "d"}`;
+}
+
+export function formatKeyName(key: string, mode: KeyMode, notation: KeyNotation): string {
+  switch (notation) {
+    case "sharps":
+      return key;
+    case "flats":
+      return SHARP_TO_FLAT[key] ?? key;
+    case "camelot":
+      return camelotCode(key, mode);
+    case "openkey":
+      return openKeyCode(key, mode);
+  }
+}
+
+// Keys that mix harmonically with the given one, by Camelot wheel moves: the same code, one
+// step either way, the relative major/minor, and the two "energy boost" jumps (+2 steps is a
+// whole tone up, +7 steps a semitone up)
+export function compatibleKeys(key: string, mode: KeyMode): CompatibleKey[] {
+  const position = fifthsPosition(key, mode);
+  const otherMode: KeyMode = mode === "minor" ? "major" : "minor";
+
+  return [
+    { key, mode, relation: "Same key" },
+    { key: keyAtPosition(position + 1, mode), mode, relation: "+1 (fifth up)" },
+    { key: keyAtPosition(position - 1, mode), mode, relation: "−1 (fifth down)" },
+    { key: keyAtPosition(position, otherMode), mode: otherMode, relation: `Relative ${otherMode}` },
+    { key: keyAtPosition(position + 2, mode), mode, relation: "Energy boost +2" },
+    { key: keyAtPosition(position + 7, mode), mode, relation: "Energy boost +7" },
+  ];
+}
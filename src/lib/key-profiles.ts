@@ -0,0 +1,51 @@
+// Key profiles: expected pitch-class weight for a major and a minor key rooted on C.
+// Chroma is correlated against every rotation of these to rank the 24 keys.
+
+export type KeyProfileId = "krumhansl" | "temperley" | "aarden" | "bellman";
+
+// "ensemble" averages the correlations of every registered profile
+export type KeyProfileChoice = KeyProfileId | "ensemble";
+
+export interface KeyProfile {
+  id: KeyProfileId;
+  name: string;
+  major: number[];
+  minor: number[];
+}
+
+export const KEY_PROFILES: Record<KeyProfileId, KeyProfile> = {
+  // Krumhansl & Kessler (1982), probe-tone ratings
+  krumhansl: {
+    id: "krumhansl",
+    name: "Krumhansl-Kessler",
+    major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+    minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+  },
+  // Temperley (1999), revised for less tonic bias
+  temperley: {
+    id: "temperley",
+    name: "Temperley",
+    major: [5.0, 2.0, 3.5, 2.0, 4.5, 4.0, 2.0, 4.5, 2.0, 3.5, 1.5, 4.0],
+    minor: [5.0, 2.0, 3.5, 4.5, 2.0, 4.0, 2.0, 4.5, 3.5, 2.0, 1.5, 4.0],
+  },
+  // Aarden (2003), note counts from the Essen folksong collection
+  aarden: {
+    id: "aarden",
+    name: "Aarden-Essen",
+    major: [17.7661, 0.145624, 14.9265, 0.160186, 19.8049, 11.3587, 0.291248, 22.062, 0.145624, 8.15494, 0.232998, 4.95122],
+    minor: [18.2648, 0.737619, 14.0499, 16.8599, 0.702494, 14.4362, 0.702494, 18.6161, 4.56621, 1.93186, 7.37619, 1.75623],
+  },
+  // Bellman (2005) / Budge (1943), chord-frequency counts from classical repertoire
+  bellman: {
+    id: "bellman",
+    name: "Bellman-Budge",
+    major: [16.80, 0.86, 12.95, 1.41, 13.49, 11.93, 1.25, 20.28, 1.80, 8.04, 0.62, 10.57],
+    minor: [18.16, 0.69, 12.99, 13.34, 1.07, 11.15, 1.38, 21.07, 7.49, 1.53, 0.92, 10.21],
+  },
+};
+
+export const KEY_PROFILE_IDS = Object.keys(KEY_PROFILES) as KeyProfileId[];
+
+export const KEY_PROFILE_CHOICES: KeyProfileChoice[] = [...KEY_PROFILE_IDS, "ensemble"];
+
+export const DEFAULT_KEY_PROFILE: KeyProfileId = "krumhansl";
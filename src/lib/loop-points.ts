@@ -0,0 +1,99 @@
+import { nearestZeroCrossing } from "./dsp";
+import { Onset } from "./onset-detection";
+
+// The ends of the signal, all a loop check reads, so a long file needn't be kept whole. A
+// signal no longer than LOOP_EDGE_LENGTH twice over is all there.
+export interface LoopEdges {
+  length: number; // Samples in the whole signal
+  head: Float32Array; // The first LOOP_EDGE_LENGTH seconds
+  tail: Float32Array; // The last LOOP_EDGE_LENGTH seconds
+}
+
+export interface LoopCheck {
+  bars: number; // Whole bars the loop spans at the detected tempo, at least 1
+  barDuration: number; // seconds
+  overhang: number; // seconds past the last whole bar; negative when the file ends short of it
+  wholeBars: boolean; // Overhang within what the tempo estimate can resolve
+  loopStart: number; // seconds, on a zero crossing
+  loopEnd: number;
+}
+
+// Below this a loop counts as whole bars regardless of length
+const MIN_TOLERANCE = 0.01; // seconds
+// Half the BPM rounding step (tempos are reported to 0.1); over a long loop this alone
+// can add up to several milliseconds
+const BPM_UNCERTAINTY = 0.05;
+// How far a loop point may move to reach a zero crossing. Each cycle drifts by up to this
+// much against the grid, so it stays small.
+const ZERO_CROSSING_RADIUS = 0.005; // seconds
+// Loop points sit within a bar of the start (a pickup) or of the end; this covers a bar of 7
+// at 30 BPM
+export const LOOP_EDGE_LENGTH = 15; // seconds
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// nearestZeroCrossing over the whole signal, for points whose search stays within an edge;
+// anywhere else the point stays put
+function edgeZeroCrossing({ length, head, tail }: LoopEdges, index: number, radius: number): number {
+  if (index + radius < head.length || head.length === length) return nearestZeroCrossing(head, index, radius);
+  const tailStart = length - tail.length;
+  if (index - radius > tailStart) return tailStart + nearestZeroCrossing(tail, index - tailStart, radius);
+  return Math.max(0, Math.min(length, index));
+}
+
+function wholeBarFit(length: number, barDuration: number) {
+  const bars = Math.max(1, Math.round(length / barDuration));
+  return { bars, overhang: length - bars * barDuration };
+}
+
+// Checks whether the sample spans whole bars and suggests seamless loop points. The loop
+// starts at 0 unless only a start on an onset within the first bar (a pickup before the
+// one) makes the length come out in whole bars. When it does come out whole, the file's own
+// end is trusted over the tempo estimate; otherwise the end lands whole bars after the
+// start and the overhang is left out. Points inside the file move to zero crossings.
+export function checkLoop(
+  edges: LoopEdges,
+  sampleRate: number,
+  bpm: number,
+  beatsPerBar: number,
+  onsets: Onset[]
+): LoopCheck {
+  const duration = edges.length / sampleRate;
+  const barDuration = (60 / bpm) * beatsPerBar;
+  const tolerance = (length: number) => Math.max(MIN_TOLERANCE, (length * BPM_UNCERTAINTY) / bpm);
+
+  let start = 0;
+  let fit = wholeBarFit(duration, barDuration);
+  if (Math.abs(fit.overhang) > tolerance(duration)) {
+    // Onsets are sample-accurate, where the beat grid is only frame-accurate
+    for (const onset of onsets) {
+      if (onset.time >= barDuration) break;
+      const pickupFit = wholeBarFit(duration - onset.time, barDuration);
+      if (
+        Math.abs(pickupFit.overhang) <= tolerance(duration - onset.time) &&
+        Math.abs(pickupFit.overhang) < Math.abs(fit.overhang)
+      ) {
+        start = onset.time;
+        fit = pickupFit;
+      }
+    }
+  }
+
+  const wholeBars = Math.abs(fit.overhang) <= tolerance(duration - start);
+  const radius = Math.round(ZERO_CROSSING_RADIUS * sampleRate);
+  const startIndex = start > 0 ? edgeZeroCrossing(edges, Math.round(start * sampleRate), radius) : 0;
+  const endIndex = wholeBars
+    ? edges.length
+    : Math.min(edges.length, edgeZeroCrossing(edges, Math.round((start + fit.bars * barDuration) * sampleRate), radius));
+
+  return {
+    bars: fit.bars,
+    barDuration: round4(barDuration),
+    overhang: round4(fit.overhang),
+    wholeBars,
+    loopStart: round4(startIndex / sampleRate),
+    loopEnd: round4(Math.max(startIndex + 1, endIndex) / sampleRate),
+  };
+}
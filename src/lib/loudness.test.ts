@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { measureLoudness } from "./loudness";
+
+const sampleRate = 48000;
+
+// A sine at a quarter of the sample rate, sampled 45° off its crests: every sample is at
+// 0.707 of the amplitude, -3 dB, while the waveform between them reaches the full amplitude
+function quarterRateSine(seconds: number, amplitude: number): Float32Array {
+  return new Float32Array(sampleRate * seconds).map((_, i) => amplitude * Math.sin((Math.PI / 2) * i + Math.PI / 4));
+}
+
+describe("measureLoudness", () => {
+  it("finds the peak between samples", () => {
+    const { samplePeak, truePeak } = measureLoudness([quarterRateSine(1, 0.5)], sampleRate);
+    assert.equal(samplePeak, -9);
+    assert.ok(Math.abs(truePeak - -6) <= 0.2, `${truePeak} dBTP`);
+  });
+
+  it("finds an intersample peak after a louder sample peak elsewhere", () => {
+    // The click sets a sample peak above the sine's samples but below its true peak, so the
+    // sine's blocks are measured, not skipped
+    const data = new Float32Array(sampleRate * 3);
+    data[100] = 0.4;
+    data.set(quarterRateSine(2, 0.5), sampleRate);
+    const { samplePeak, truePeak } = measureLoudness([data], sampleRate);
+    assert.equal(samplePeak, -8);
+    assert.ok(Math.abs(truePeak - -6) <= 0.2, `${truePeak} dBTP`);
+  });
+
+  it("reads digital silence as the floor", () => {
+    const result = measureLoudness([new Float32Array(sampleRate * 5)], sampleRate);
+    assert.equal(result.integrated, -70);
+    assert.equal(result.shortTermMax, -70);
+    assert.equal(result.truePeak, -120);
+    assert.equal(result.rms, -120);
+  });
+});
@@ -0,0 +1,357 @@
+import { createStageReporter, ProgressCallback } from "./progress";
+
+export interface LoudnessPoint {
+  time: number; // seconds, end of the 3 s window
+  lufs: number;
+}
+
+export interface LoudnessResult {
+  integrated: number; // LUFS, gated (EBU R128)
+  shortTerm: LoudnessPoint[]; // 3 s windows, one point per second
+  shortTermMax: number; // LUFS
+  range: number; // LU (EBU Tech 3342)
+  truePeak: number; // dBTP, from 4× oversampling
+  samplePeak: number; // dBFS
+  rms: number; // dBFS
+  crestFactor: number; // dB, sample peak over RMS
+}
+
+// Levels below these are reported as the floor itself: -70 LUFS is R128's absolute gate
+const LUFS_FLOOR = -70;
+const DB_FLOOR = -120;
+
+// Gating blocks (BS.1770): 400 ms momentary blocks and 3 s short-term windows, both
+// stepped in 100 ms chunks
+const CHUNK_SECONDS = 0.1;
+const MOMENTARY_CHUNKS = 4;
+const SHORT_TERM_CHUNKS = 30;
+const SHORT_TERM_POINT_CHUNKS = 10;
+const RELATIVE_GATE = -10; // LU, integrated loudness
+const RANGE_RELATIVE_GATE = -20; // LU, loudness range
+
+// True-peak interpolation filter: taps per oversampling phase
+const TRUE_PEAK_TAPS = 12;
+// Samples per block when skipping blocks too quiet to raise the true peak; divides 4096
+const TRUE_PEAK_BLOCK = 64;
+
+// Added to the K-weighting input, far below anything audible, so that the filter state of a
+// fade to silence never decays into denormal numbers, which are many times slower to compute
+// with. The high-pass stage takes it out again.
+const DENORMAL_GUARD = 1e-20;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number, number];
+}
+
+// K-weighting: the BS.1770 high-shelf ("head") and high-pass stages, derived for any sample
+// rate from their analog prototypes (as libebur128 does)
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+    a: [1, (2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [1, (2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  return [shelf, highPass];
+}
+
+function toLUFS(meanSquare: number): number {
+  return meanSquare > 0 ? Math.max(LUFS_FLOOR, -0.691 + 10 * Math.log10(meanSquare)) : LUFS_FLOOR;
+}
+
+function toDB(amplitude: number): number {
+  return amplitude > 0 ? Math.max(DB_FLOOR, 20 * Math.log10(amplitude)) : DB_FLOOR;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10 || 0; // No "-0" in the output
+}
+
+// Windowed-sinc interpolator split into phases; each phase is normalized to unity gain.
+// Returned flat, phase after phase, for the inner loop.
+function interpolationPhases(factor: number): Float64Array {
+  const length = factor * TRUE_PEAK_TAPS;
+  const center = (length - 1) / 2;
+  const phases = Array.from({ length: factor }, () => new Float64Array(TRUE_PEAK_TAPS));
+
+  for (let i = 0; i < length; i++) {
+    const t = (i - center) / factor;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const blackman = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (length - 1));
+    phases[i % factor][Math.floor(i / factor)] = sinc * blackman;
+  }
+  for (const phase of phases) {
+    const sum = phase.reduce((total, tap) => total + tap, 0);
+    for (let j = 0; j < phase.length; j++) phase[j] /= sum;
+  }
+  const flat = new Float64Array(length);
+  phases.forEach((phase, i) => flat.set(phase, i * TRUE_PEAK_TAPS));
+  return flat;
+}
+
+// Sums of one channel's square and K-weighted power, the latter also per chunk, and its
+// sample peak, over a block starting at `position`. Runs once per sample, so the filter
+// state lives in locals and goes back to `state` (s1, s2, h1, h2) at the end.
+function weighChannel(
+  block: Float32Array,
+  [shelf, highPass]: [Biquad, Biquad],
+  state: Float64Array,
+  chunkPower: number[],
+  chunkSize: number,
+  position: number,
+  onSample: (i: number) => void
+): { squareTotal: number; weightedTotal: number; samplePeak: number } {
+  const [sb0, sb1, sb2] = shelf.b;
+  const [, sa1, sa2] = shelf.a;
+  const [hb0, hb1, hb2] = highPass.b;
+  const [, ha1, ha2] = highPass.a;
+  // Direct form II transposed state of each stage
+  let s1 = state[0];
+  let s2 = state[1];
+  let h1 = state[2];
+  let h2 = state[3];
+  let squareTotal = 0;
+  let weightedTotal = 0;
+  let samplePeak = 0;
+  let chunk = Math.floor(position / chunkSize);
+  let chunkEnd = (chunk + 1) * chunkSize - position; // Index in the block where the next chunk starts
+  let chunkTotal = 0;
+
+  for (let n = 0; n < block.length; n++) {
+    if ((n & 4095) === 0) onSample(n);
+    const value = block[n];
+    squareTotal += value * value;
+    const magnitude = value < 0 ? -value : value;
+    if (magnitude > samplePeak) samplePeak = magnitude;
+
+    const input = value + DENORMAL_GUARD;
+    const shelved = sb0 * input + s1;
+    s1 = sb1 * input - sa1 * shelved + s2;
+    s2 = sb2 * input - sa2 * shelved;
+    const weighted = hb0 * shelved + h1;
+    h1 = hb1 * shelved - ha1 * weighted + h2;
+    h2 = hb2 * shelved - ha2 * weighted;
+
+    const power = weighted * weighted;
+    weightedTotal += power;
+    if (n === chunkEnd) {
+      chunkPower[chunk] = (chunkPower[chunk] ?? 0) + chunkTotal;
+      chunk++;
+      chunkEnd += chunkSize;
+      chunkTotal = 0;
+    }
+    chunkTotal += power;
+  }
+  if (block.length > 0) chunkPower[chunk] = (chunkPower[chunk] ?? 0) + chunkTotal;
+
+  state.set([s1, s2, h1, h2]);
+  return { squareTotal, weightedTotal, samplePeak };
+}
+
+// Largest absolute gain of any phase: no interpolated value exceeds the loudest sample under
+// the taps times this
+function interpolationGain(phases: Float64Array): number {
+  let gain = 0;
+  for (let offset = 0; offset < phases.length; offset += TRUE_PEAK_TAPS) {
+    let sum = 0;
+    for (let j = 0; j < TRUE_PEAK_TAPS; j++) sum += Math.abs(phases[offset + j]);
+    gain = Math.max(gain, sum);
+  }
+  return gain;
+}
+
+// Largest interpolated magnitude of signal[from, end), or `floor` if none is larger; the
+// samples before `from` are the previous block's last. Blocks that can't beat the peak so
+// far are skipped: seeded with the sample peak, that is most of them.
+function truePeak(
+  signal: Float32Array,
+  from: number,
+  phases: Float64Array,
+  gain: number,
+  floor: number,
+  onSample: (i: number) => void
+): number {
+  let peak = floor;
+  for (let start = from; start < signal.length; start += TRUE_PEAK_BLOCK) {
+    if (((start - from) & 4095) === 0) onSample(start - from);
+    const end = Math.min(start + TRUE_PEAK_BLOCK, signal.length);
+    let loudest = 0;
+    for (let n = start - TRUE_PEAK_TAPS + 1; n < end; n++) {
+      const sample = signal[n] < 0 ? -signal[n] : signal[n];
+      if (sample > loudest) loudest = sample;
+    }
+    if (loudest * gain <= peak) continue;
+
+    for (let n = start; n < end; n++) {
+      const sample = signal[n] < 0 ? -signal[n] : signal[n];
+      if (sample > peak) peak = sample;
+      for (let offset = 0; offset < phases.length; offset += TRUE_PEAK_TAPS) {
+        let value = 0;
+        for (let j = 0; j < TRUE_PEAK_TAPS; j++) value += phases[offset + j] * signal[n - j];
+        if (value < 0) value = -value;
+        if (value > peak) peak = value;
+      }
+    }
+  }
+  return peak;
+}
+
+// Mean of the chunk powers in [from, to), as per-sample mean square
+function windowPower(chunkPower: number[], chunkSize: number, from: number, to: number): number {
+  let sum = 0;
+  for (let c = from; c < to; c++) sum += chunkPower[c];
+  return sum / ((to - from) * chunkSize);
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const low = Math.floor(index);
+  const high = Math.ceil(index);
+  return sorted[low] + (sorted[high] - sorted[low]) * (index - low);
+}
+
+// Loudness and level of the original channels (not the analysis downmix), measured as
+// samples arrive. Only the filter and interpolator state and the 100 ms chunk powers are
+// kept, so the result is the same however the samples are cut into blocks.
+export interface LoudnessMeter {
+  push(channels: Float32Array[]): void; // The next frames, one array per channel; not kept
+  result(): LoudnessResult; // Of everything pushed so far
+}
+
+// `total` is the frame count the input will reach, for progress. Channels are summed with
+// unit weight, which is right for mono and stereo. Input shorter than a gating block is
+// measured as a single block.
+export function createLoudnessMeter(
+  channelCount: number,
+  sampleRate: number,
+  total: number,
+  onProgress?: ProgressCallback
+): LoudnessMeter {
+  const report = createStageReporter("loudness", channelCount * total * 2, onProgress);
+  const chunkSize = Math.max(1, Math.round(CHUNK_SECONDS * sampleRate));
+  const chunkPower: number[] = [];
+  const factor = sampleRate >= 176400 ? 1 : sampleRate >= 88200 ? 2 : 4;
+  const phases = interpolationPhases(factor);
+  const gain = interpolationGain(phases);
+  const filters = kWeightingFilters(sampleRate);
+  // Per channel: the filter state, and the last samples the interpolator reads again
+  const filterStates = Array.from({ length: channelCount }, () => new Float64Array(4));
+  const histories = Array.from({ length: channelCount }, () => new Float32Array(TRUE_PEAK_TAPS - 1));
+
+  let length = 0;
+  let done = 0;
+  let weightedTotal = 0;
+  let squareTotal = 0;
+  let samplePeak = 0;
+  let peak = 0;
+
+  return {
+    push(channels) {
+      channels.forEach((channel, index) => {
+        const sums = weighChannel(channel, filters, filterStates[index], chunkPower, chunkSize, length, (n) => report(done + n));
+        done += channel.length;
+        weightedTotal += sums.weightedTotal;
+        squareTotal += sums.squareTotal;
+        samplePeak = Math.max(samplePeak, sums.samplePeak);
+      });
+
+      // The true peak is never below the sample peak, which makes a good starting point
+      peak = Math.max(peak, samplePeak);
+      channels.forEach((channel, index) => {
+        const history = histories[index];
+        const signal = new Float32Array(history.length + channel.length);
+        signal.set(history);
+        signal.set(channel, history.length);
+        peak = truePeak(signal, history.length, phases, gain, peak, (n) => report(done + n));
+        done += channel.length;
+        history.set(signal.subarray(channel.length));
+      });
+
+      length += channels[0]?.length ?? 0;
+      report(done);
+    },
+
+    result() {
+      return loudnessResult(chunkPower, chunkSize, length, channelCount, { weightedTotal, squareTotal, samplePeak, peak });
+    },
+  };
+}
+
+export function measureLoudness(channels: Float32Array[], sampleRate: number, onProgress?: ProgressCallback): LoudnessResult {
+  const meter = createLoudnessMeter(channels.length, sampleRate, channels[0]?.length ?? 0, onProgress);
+  meter.push(channels);
+  return meter.result();
+}
+
+// Gating, short-term windows and loudness range from the chunk powers; only whole chunks count
+function loudnessResult(
+  chunkPower: number[],
+  chunkSize: number,
+  length: number,
+  channelCount: number,
+  { weightedTotal, squareTotal, samplePeak, peak }: { weightedTotal: number; squareTotal: number; samplePeak: number; peak: number }
+): LoudnessResult {
+  const chunkCount = Math.floor(length / chunkSize);
+
+  // Momentary blocks for gating; a file shorter than one block is a block of its own
+  const blocks: number[] = [];
+  for (let c = 0; c + MOMENTARY_CHUNKS <= chunkCount; c++) {
+    blocks.push(windowPower(chunkPower, chunkSize, c, c + MOMENTARY_CHUNKS));
+  }
+  if (blocks.length === 0 && length > 0) blocks.push(weightedTotal / length);
+
+  const aboveAbsolute = blocks.filter((power) => toLUFS(power) > LUFS_FLOOR);
+  const ungated = aboveAbsolute.reduce((sum, power) => sum + power, 0) / (aboveAbsolute.length || 1);
+  const gated = aboveAbsolute.filter((power) => toLUFS(power) > toLUFS(ungated) + RELATIVE_GATE);
+  const integrated = gated.length > 0 ? toLUFS(gated.reduce((sum, power) => sum + power, 0) / gated.length) : LUFS_FLOOR;
+
+  // Short-term windows; files shorter than one window get a single whole-file value
+  const shortTermPowers: { end: number; power: number }[] = [];
+  for (let c = 0; c + SHORT_TERM_CHUNKS <= chunkCount; c++) {
+    shortTermPowers.push({ end: c + SHORT_TERM_CHUNKS, power: windowPower(chunkPower, chunkSize, c, c + SHORT_TERM_CHUNKS) });
+  }
+  if (shortTermPowers.length === 0 && length > 0) {
+    shortTermPowers.push({ end: length / chunkSize, power: weightedTotal / length });
+  }
+
+  const shortTerm = shortTermPowers
+    .filter((_, i) => i % SHORT_TERM_POINT_CHUNKS === 0 || i === shortTermPowers.length - 1)
+    .map(({ end, power }) => ({ time: round1(end * CHUNK_SECONDS), lufs: round1(toLUFS(power)) }));
+  const shortTermMax = shortTermPowers.reduce((max, { power }) => Math.max(max, toLUFS(power)), LUFS_FLOOR);
+
+  // Loudness range: spread between the 10th and 95th percentile of gated short-term loudness
+  const rangeCandidates = shortTermPowers.map(({ power }) => power).filter((power) => toLUFS(power) > LUFS_FLOOR);
+  const rangeMean = rangeCandidates.reduce((sum, power) => sum + power, 0) / (rangeCandidates.length || 1);
+  const rangeLevels = rangeCandidates
+    .map(toLUFS)
+    .filter((lufs) => lufs > toLUFS(rangeMean) + RANGE_RELATIVE_GATE)
+    .sort((a, b) => a - b);
+  const range = rangeLevels.length > 1 ? percentile(rangeLevels, 0.95) - percentile(rangeLevels, 0.1) : 0;
+
+  const rms = toDB(Math.sqrt(squareTotal / (channelCount * length || 1)));
+  const samplePeakDB = toDB(samplePeak);
+
+  return {
+    integrated: round1(integrated),
+    shortTerm,
+    shortTermMax: round1(shortTermMax),
+    range: round1(range),
+    truePeak: round1(toDB(peak)),
+    samplePeak: round1(samplePeakDB),
+    rms: round1(rms),
+    crestFactor: round1(samplePeakDB - rms),
+  };
+}
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseKey, readMetadata } from "./metadata-reader";
+import { readChunks, toDataView } from "./pcm-decoder";
+import { TagValues, writeTags } from "./tag-writer";
+import { encodeWAV } from "./wav-encoder";
+
+describe("parseKey", () => {
+  it("reads key names with a mode", () => {
+    assert.deepEqual(parseKey("Am"), { key: "A", mode: "minor" });
+    assert.deepEqual(parseKey("F#m"), { key: "F#", mode: "minor" });
+    assert.deepEqual(parseKey("A minor"), { key: "A", mode: "minor" });
+    assert.deepEqual(parseKey("Cmaj"), { key: "C", mode: "major" });
+    assert.deepEqual(parseKey("gmin"), { key: "G", mode: "minor" });
+  });
+
+  it("writes flats as the equivalent sharp", () => {
+    assert.deepEqual(parseKey("Bb major"), { key: "A#", mode: "major" });
+    assert.deepEqual(parseKey("E♭m"), { key: "D#", mode: "minor" });
+  });
+
+  it("reads a bare note as major, as ID3 defines TKEY", () => {
+    assert.deepEqual(parseKey("Db"), { key: "C#", mode: "major" });
+    assert.deepEqual(parseKey(" c "), { key: "C", mode: "major" });
+  });
+
+  it("reads Camelot and Open Key codes", () => {
+    assert.deepEqual(parseKey("8A"), { key: "A", mode: "minor" });
+    assert.deepEqual(parseKey("8B"), { key: "C", mode: "major" });
+    assert.deepEqual(parseKey("12B"), { key: "E", mode: "major" });
+    assert.deepEqual(parseKey("1m"), { key: "A", mode: "minor" });
+    assert.deepEqual(parseKey("1d"), { key: "C", mode: "major" });
+  });
+
+  it("rejects anything else", () => {
+    for (const text of ["", "H", "9Z", "C major minor", "13A"]) {
+      assert.equal(parseKey(text), undefined, text);
+    }
+  });
+});
+
+describe("readMetadata", () => {
+  const tags: TagValues = { bpm: 93, key: "D", mode: "major", rootNote: 50, oneShot: false, beats: 8, meter: [4, 4] };
+  // Two seconds of stereo silence, so the audio runs well past the first read
+  const silence = { channels: [new Float32Array(88200), new Float32Array(88200)], sampleRate: 44100 };
+  const tagged = new Uint8Array(writeTags(encodeWAV(silence), tags));
+  const expected = {
+    tempo: { bpm: 93, source: "info" },
+    key: { key: "D", mode: "major", source: "info" },
+    rootNote: { midi: 50, source: "acid" },
+  };
+
+  it("reads the tag chunks ahead of the audio", async () => {
+    assert.deepEqual(await readMetadata(new Blob([tagged]), "loop.wav"), expected);
+  });
+
+  it("reads tag chunks written after the audio", async () => {
+    // The same chunks, with the tags moved to the end
+    const chunks = readChunks(toDataView(tagged), 12, true);
+    const isTag = (id: string) => id === "LIST" || id === "acid";
+    const body = [...chunks.filter((c) => !isTag(c.id)), ...chunks.filter((c) => isTag(c.id))].map((c) =>
+      tagged.subarray(c.offset - 8, c.offset + c.declaredSize + (c.declaredSize % 2))
+    );
+    const size = 4 + body.reduce((total, part) => total + part.length, 0);
+    const header = tagged.slice(0, 12);
+    new DataView(header.buffer).setUint32(4, size, true);
+    assert.deepEqual(await readMetadata(new Blob([header, ...body]), "loop.wav"), expected);
+  });
+});
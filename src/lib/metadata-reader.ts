@@ -0,0 +1,316 @@
+import type { AnalysisPrior, AnalysisResult } from "./audio-analyzer";
+import { declaredID3Length, decodeID3Text, readID3Frames } from "./id3";
+import { KEY_NAMES, KeyMode, KeyPrior } from "./key-detection";
+import { camelotCode, openKeyCode } from "./key-notation";
+import { PCMFileFormat, readChunks, readId, sniffPCMFormat, toDataView } from "./pcm-decoder";
+import { ACID_ONE_SHOT, ACID_ROOT_NOTE, INFO_BPM, INFO_KEY } from "./tag-writer";
+import { PRIOR_TOLERANCE } from "./tempo-detection";
+
+// Tempo and key a file already claims for itself: ID3 tags (MP3, or the ID3 chunk of a WAV
+// or AIFF), RIFF INFO, acid and smpl chunks, and the file name ("loop_94_Fmin.wav").
+// Embedded values win over the file name.
+
+export type MetadataSource = "id3" | "info" | "acid" | "smpl" | "filename";
+
+export const METADATA_SOURCE_LABELS: Record<MetadataSource, string> = {
+  id3: "ID3",
+  info: "RIFF INFO",
+  acid: "acid chunk",
+  smpl: "smpl chunk",
+  filename: "file name",
+};
+
+export interface TaggedTempo {
+  bpm: number;
+  source: MetadataSource;
+}
+
+export interface TaggedKey extends KeyPrior {
+  source: MetadataSource;
+}
+
+export interface TaggedRootNote {
+  midi: number; // Sampler root (unity) note
+  source: MetadataSource;
+}
+
+export interface FileMetadata {
+  tempo: TaggedTempo | null;
+  key: TaggedKey | null;
+  rootNote: TaggedRootNote | null;
+}
+
+// "octave": half or double the detected tempo; "relative": the relative major or minor
+export type MetadataAgreement = "agrees" | "octave" | "relative" | "disagrees";
+
+export const METADATA_AGREEMENT_LABELS: Record<MetadataAgreement, string> = {
+  agrees: "matches",
+  octave: "half/double",
+  relative: "relative key",
+  disagrees: "disagrees",
+};
+
+export interface MetadataComparison {
+  tempo: MetadataAgreement | null; // null when there is nothing to compare
+  key: MetadataAgreement | null;
+  rootNote: MetadataAgreement | null;
+}
+
+interface Found {
+  source: MetadataSource;
+  tempo?: number;
+  key?: KeyPrior;
+  rootNote?: number;
+}
+
+// Tagged tempos outside this range are junk
+const MIN_TAGGED_BPM = 30;
+const MAX_TAGGED_BPM = 300;
+// A bare number in a file name only counts as a tempo in this narrower range; "808" isn't one
+const MIN_FILENAME_BPM = 60;
+const MAX_FILENAME_BPM = 200;
+
+const SEPARATOR = String.raw`[\s_\-.()[\]]`;
+const FILENAME_BPM = /(\d{2,3}(?:\.\d+)?)[\s_]?bpm/i;
+const FILENAME_NUMBER = new RegExp(String.raw`(?:^|${SEPARATOR})(\d{2,3})(?=${SEPARATOR}|$)`, "g");
+// The note letter's case matters: lowercase needs a mode ("amin"), or "db" would be D flat
+const FILENAME_KEY = new RegExp(
+  String.raw`(?:^|${SEPARATOR})([A-Ga-g])(#|♯|b|♭|sharp|flat)?[\s_]?(maj(?:or)?|Maj(?:or)?|MAJ(?:OR)?|min(?:or)?|Min(?:or)?|MIN(?:OR)?|m)?(?=${SEPARATOR}|$)`,
+  "g"
+);
+// Note names with an octave ("G5") are a one-shot's root
+const FILENAME_NOTE = new RegExp(String.raw`(?:^|${SEPARATOR})([A-G])(#|♯|b|♭)?(-?\d)(?=${SEPARATOR}|$)`);
+// Chunks that can hold tags; the rest (the audio above all) are skipped unread
+const TAG_CHUNK_IDS = new Set(["ID3 ", "id3 ", "LIST", "acid", "smpl"]);
+const CHUNK_HEADER_SIZE = 8;
+// Read first: an ID3 header, or the chunks a WAV or AIFF usually puts before its audio
+const HEAD_BYTES = 64 * 1024;
+const TAG_KEY = /^([A-G])(#|♯|b|♭)?\s*(maj|major|min|minor|m)?$/i;
+
+function noteName(letter: string, accidental = ""): string {
+  const shift = accidental === "#" || accidental === "♯" || accidental === "sharp" ? 1 : accidental ? -1 : 0;
+  return KEY_NAMES[(KEY_NAMES.indexOf(letter.toUpperCase()) + shift + 12) % 12];
+}
+
+function modeName(suffix = ""): KeyMode | null {
+  if (!suffix) return null;
+  return suffix === "m" || suffix.toLowerCase().startsWith("min") ? "minor" : "major";
+}
+
+function parseTempo(text: string): number | undefined {
+  const bpm = parseFloat(text);
+  return bpm >= MIN_TAGGED_BPM && bpm <= MAX_TAGGED_BPM ? bpm : undefined;
+}
+
+// "Am", "F#m", "Bb major", or a Camelot / Open Key code ("8A", "1m"). In tags a bare note
+// is a major key, as ID3 defines TKEY.
+export function parseKey(text: string): KeyPrior | undefined {
+  const match = TAG_KEY.exec(text.trim());
+  if (match) return { key: noteName(match[1], match[2]), mode: modeName(match[3]) ?? "major" };
+
+  const code = text.trim().toUpperCase();
+  for (const key of KEY_NAMES) {
+    for (const mode of ["major", "minor"] as KeyMode[]) {
+      if (camelotCode(key, mode) === code || openKeyCode(key, mode).toUpperCase() === code) return { key, mode };
+    }
+  }
+  return undefined;
+}
+
+function fromID3(tag: Uint8Array): Found {
+  const found: Found = { source: "id3" };
+  for (const frame of readID3Frames(tag).frames) {
+    // v2.2 uses three-letter IDs
+    if (frame.id === "TBPM" || frame.id === "TBP") found.tempo = parseTempo(decodeID3Text(frame.body));
+    if (frame.id === "TKEY" || frame.id === "TKE") found.key = parseKey(decodeID3Text(frame.body));
+  }
+  return found;
+}
+
+// IKEY is "keywords" in the original spec, so anything that doesn't parse as a key is skipped
+function fromInfo(list: Uint8Array): Found {
+  const found: Found = { source: "info" };
+  for (const field of readChunks(toDataView(list), 4, true)) {
+    const text = new TextDecoder("latin1").decode(list.subarray(field.offset, field.offset + field.size)).split("\0")[0];
+    if (field.id === INFO_BPM) found.tempo = parseTempo(text);
+    if (field.id === INFO_KEY) found.key = parseKey(text);
+  }
+  return found;
+}
+
+function fromAcid(body: Uint8Array): Found {
+  const found: Found = { source: "acid" };
+  if (body.length < 24) return found;
+  const view = toDataView(body);
+  const flags = view.getUint32(0, true);
+  const root = view.getUint16(4, true);
+  const oneShot = (flags & ACID_ONE_SHOT) !== 0;
+  // A one-shot's tempo field is left over from whatever wrote it
+  if (!oneShot) found.tempo = parseTempo(String(view.getFloat32(20, true)));
+  if (flags & ACID_ROOT_NOTE && root < 128) {
+    found.rootNote = root;
+    // The root of a loop is its key, without a mode
+    if (!oneShot) found.key = { key: KEY_NAMES[root % 12], mode: null };
+  }
+  return found;
+}
+
+function fromSmpl(body: Uint8Array): Found {
+  const found: Found = { source: "smpl" };
+  if (body.length < 36) return found;
+  const unityNote = toDataView(body).getUint32(12, true);
+  if (unityNote < 128) found.rootNote = unityNote;
+  return found;
+}
+
+function fromFileName(fileName: string): Found {
+  const found: Found = { source: "filename" };
+  const name = fileName.replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "");
+
+  const bpm = FILENAME_BPM.exec(name);
+  if (bpm) {
+    found.tempo = parseTempo(bpm[1]);
+  } else {
+    for (const match of name.matchAll(FILENAME_NUMBER)) {
+      const value = Number(match[1]);
+      if (value >= MIN_FILENAME_BPM && value <= MAX_FILENAME_BPM) {
+        found.tempo = value;
+        break;
+      }
+    }
+  }
+
+  // A key with a mode or an accidental beats a bare capital letter, which might be a take
+  let bare: KeyPrior | undefined;
+  for (const match of name.matchAll(FILENAME_KEY)) {
+    const [, letter, accidental, suffix] = match;
+    const isCapital = letter === letter.toUpperCase();
+    if (suffix || (accidental && isCapital)) {
+      found.key = { key: noteName(letter, accidental), mode: modeName(suffix) };
+      break;
+    }
+    if (!bare && isCapital) bare = { key: noteName(letter), mode: null };
+  }
+  found.key ??= bare;
+
+  const note = FILENAME_NOTE.exec(name);
+  if (note) {
+    const [, letter, accidental, octave] = note;
+    found.rootNote = (Number(octave) + 1) * 12 + KEY_NAMES.indexOf(noteName(letter, accidental));
+  }
+  return found;
+}
+
+// Bytes [start, end) of the file, cut short at its end
+async function readRange(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+function chunkMetadata(id: string, body: Uint8Array, format: PCMFileFormat): Found | null {
+  if (id === "ID3 " || id === "id3 ") return fromID3(body);
+  if (format !== "wav") return null;
+  if (id === "LIST" && body.length >= 4 && readId(toDataView(body), 0) === "INFO") return fromInfo(body);
+  if (id === "acid") return fromAcid(body);
+  if (id === "smpl") return fromSmpl(body);
+  return null;
+}
+
+// Reads only the tags: an MP3's ID3 tag, or a WAV or AIFF's chunks walked header by header,
+// so the audio between them is never loaded
+async function embeddedMetadata(file: Blob): Promise<Found[]> {
+  const head = await readRange(file, 0, HEAD_BYTES);
+  const id3Length = declaredID3Length(head);
+  if (id3Length > 0) {
+    return [fromID3(id3Length <= head.length ? head.subarray(0, id3Length) : await readRange(file, 0, id3Length))];
+  }
+
+  const format = sniffPCMFormat(head);
+  if (!format) return [];
+  // Most chunks sit in the head; anything past it is read on its own
+  const read = (start: number, end: number) =>
+    end <= head.length ? Promise.resolve(head.subarray(start, end)) : readRange(file, start, end);
+  const found: Found[] = [];
+  for (let offset = 12; offset + CHUNK_HEADER_SIZE <= file.size; ) {
+    const header = toDataView(await read(offset, offset + CHUNK_HEADER_SIZE));
+    const id = readId(header, 0);
+    const declaredSize = header.getUint32(4, format === "wav");
+    const body = offset + CHUNK_HEADER_SIZE;
+    if (TAG_CHUNK_IDS.has(id)) {
+      const tags = chunkMetadata(id, await read(body, Math.min(file.size, body + declaredSize)), format);
+      if (tags) found.push(tags);
+    }
+    // Chunks are padded to an even length
+    offset = body + declaredSize + (declaredSize % 2);
+  }
+  // Most specific first, whatever the chunk order
+  const order: MetadataSource[] = ["id3", "info", "acid", "smpl"];
+  return found.sort((a, b) => order.indexOf(a.source) - order.indexOf(b.source));
+}
+
+export async function readMetadata(file: Blob, fileName: string): Promise<FileMetadata> {
+  let found: Found[] = [];
+  try {
+    found = await embeddedMetadata(file);
+  } catch {
+    // Damaged tags aren't worth failing over; the file name may still say something
+  }
+  found.push(fromFileName(fileName));
+
+  const tempo = found.find((f) => f.tempo !== undefined);
+  const key = found.find((f) => f.key !== undefined);
+  const rootNote = found.find((f) => f.rootNote !== undefined);
+  return {
+    tempo: tempo ? { bpm: tempo.tempo!, source: tempo.source } : null,
+    key: key ? { ...key.key!, source: key.source } : null,
+    rootNote: rootNote ? { midi: rootNote.rootNote!, source: rootNote.source } : null,
+  };
+}
+
+// MIDI 69 -> "A4"
+export function taggedNoteName(midi: number): string {
+  return `${KEY_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+export function hasMetadata(metadata: FileMetadata): boolean {
+  return metadata.tempo !== null || metadata.key !== null || metadata.rootNote !== null;
+}
+
+export function metadataPrior(metadata: FileMetadata): AnalysisPrior {
+  const prior: AnalysisPrior = {};
+  if (metadata.tempo) prior.bpm = metadata.tempo.bpm;
+  if (metadata.key) prior.key = { key: metadata.key.key, mode: metadata.key.mode };
+  return prior;
+}
+
+function compareTempo(tagged: number, detected: number): MetadataAgreement {
+  const octaves = Math.abs(Math.log2(tagged / detected));
+  const tolerance = Math.log2(1 + PRIOR_TOLERANCE);
+  if (octaves <= tolerance) return "agrees";
+  return Math.abs(octaves - 1) <= tolerance ? "octave" : "disagrees";
+}
+
+function compareKey(tagged: KeyPrior, detected: { key: string; mode: KeyMode }): MetadataAgreement {
+  if (tagged.key === detected.key && (tagged.mode === null || tagged.mode === detected.mode)) return "agrees";
+  if (tagged.mode === null || tagged.mode === detected.mode) return "disagrees";
+  // A minor key shares its notes with the major a minor third up
+  const [minor, major] = tagged.mode === "minor" ? [tagged.key, detected.key] : [detected.key, tagged.key];
+  return (KEY_NAMES.indexOf(minor) + 3) % 12 === KEY_NAMES.indexOf(major) ? "relative" : "disagrees";
+}
+
+// One-shots are compared on their root note only; their tempo and key mean little
+export function compareWithMetadata(metadata: FileMetadata, result: AnalysisResult): MetadataComparison {
+  const top = result.keyCandidates[0];
+  const root = result.rootNote;
+  const isLoop = result.sampleType === "loop";
+
+  let key: MetadataAgreement | null = null;
+  if (metadata.key && isLoop && top) key = compareKey(metadata.key, top);
+  if (metadata.key && root) key = metadata.key.key === root.note ? "agrees" : "disagrees";
+
+  return {
+    tempo: metadata.tempo && isLoop ? compareTempo(metadata.tempo.bpm, result.bpm) : null,
+    key,
+    // Octave numbering differs between samplers, so only the pitch class counts
+    rootNote: metadata.rootNote && root ? (metadata.rootNote.midi % 12 === root.midi % 12 ? "agrees" : "disagrees") : null,
+  };
+}
@@ -0,0 +1,126 @@
+import { beatStrengths } from "./beat-tracking";
+import { OnsetEnvelope } from "./tempo-detection";
+
+export type TimeSignature = "4/4" | "3/4" | "6/8" | "7/8";
+
+export interface MeterCandidate {
+  timeSignature: TimeSignature;
+  beatsPerBar: number; // In tracked beats, i.e. metronome clicks per bar
+  confidence: number; // 0 to 1, candidates sum to 1
+}
+
+type Subdivision = "binary" | "ternary" | "any";
+
+interface MeterHypothesis {
+  timeSignature: TimeSignature;
+  beatsPerBar: number;
+  subdivision: Subdivision;
+  prior: number; // How common the meter is in sample material
+}
+
+// 6/8 shows up either as two dotted-quarter beats with triplet subdivision, or as six
+// eighth-note beats when the tracker locks to the faster pulse; detectMeter reports it
+// once. 7/8 is only countable in eighths.
+const HYPOTHESES: MeterHypothesis[] = [
+  { timeSignature: "4/4", beatsPerBar: 4, subdivision: "binary", prior: 1 },
+  { timeSignature: "3/4", beatsPerBar: 3, subdivision: "binary", prior: 0.85 },
+  { timeSignature: "6/8", beatsPerBar: 2, subdivision: "ternary", prior: 0.8 },
+  { timeSignature: "6/8", beatsPerBar: 6, subdivision: "any", prior: 0.7 },
+  { timeSignature: "7/8", beatsPerBar: 7, subdivision: "any", prior: 0.6 },
+];
+
+// Normalized autocorrelation of the mean-removed envelope at a fractional lag (in frames)
+function createAutocorrelation(values: number[]) {
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const centered = values.map((v) => v - mean);
+  const cache = new Map<number, number>();
+
+  const atLag = (lag: number): number => {
+    if (lag >= n) return 0;
+    const cached = cache.get(lag);
+    if (cached !== undefined) return cached;
+    let sum = 0;
+    for (let i = 0; i < n - lag; i++) {
+      sum += centered[i] * centered[i + lag];
+    }
+    const value = sum / (n - lag);
+    cache.set(lag, value);
+    return value;
+  };
+
+  const zero = atLag(0) || 1;
+  return (lag: number): number => {
+    const low = Math.floor(lag);
+    const frac = lag - low;
+    return ((1 - frac) * atLag(low) + frac * atLag(low + 1)) / zero;
+  };
+}
+
+// How much one bar position stands out from the others once beats are folded into bars
+function accentClarity(strengths: number[], beatsPerBar: number): number {
+  if (strengths.length < beatsPerBar * 2) return 0;
+
+  const sums = new Array(beatsPerBar).fill(0);
+  const counts = new Array(beatsPerBar).fill(0);
+  strengths.forEach((strength, i) => {
+    sums[i % beatsPerBar] += strength;
+    counts[i % beatsPerBar]++;
+  });
+  const means = sums.map((sum, i) => sum / counts[i]);
+  const peak = Math.max(...means);
+  const rest = (means.reduce((a, b) => a + b, 0) - peak) / (beatsPerBar - 1);
+  const overall = strengths.reduce((a, b) => a + b, 0) / strengths.length || 1;
+
+  return Math.max(0, (peak - rest) / overall);
+}
+
+// Meter from bar-level periodicity of the onset envelope: for each hypothesis, how strongly
+// the envelope repeats at the bar length, how clearly one beat per bar is accented, and
+// whether beats split in two or three.
+export function detectMeter(envelope: OnsetEnvelope, bpm: number, beats: number[]): MeterCandidate[] {
+  if (envelope.values.length < 100 || beats.length < 4) {
+    return [{ timeSignature: "4/4", beatsPerBar: 4, confidence: 1 }];
+  }
+
+  const autocorrelation = createAutocorrelation(envelope.values);
+  const period = (60 / bpm) * envelope.frameRate;
+  const strengths = beatStrengths(envelope, beats);
+
+  const binary = Math.max(0, autocorrelation(period / 2));
+  const ternary = Math.max(0, autocorrelation(period / 3), autocorrelation((2 * period) / 3));
+  const ternaryShare = binary + ternary > 0 ? ternary / (binary + ternary) : 0.5;
+
+  const scores = HYPOTHESES.map((hypothesis) => {
+    const barPeriodicity = Math.max(0, autocorrelation(period * hypothesis.beatsPerBar));
+    const clarity = accentClarity(strengths, hypothesis.beatsPerBar);
+    const subdivisionFit =
+      hypothesis.subdivision === "ternary" ? ternaryShare
+      : hypothesis.subdivision === "binary" ? 1 - ternaryShare
+      : 0.5;
+
+    return hypothesis.prior * (barPeriodicity + clarity) * (0.5 + subdivisionFit);
+  });
+
+  // One candidate per time signature: the two 6/8 readings pool their evidence and count
+  // bars the way that scored better
+  const total = scores.reduce((a, b) => a + b, 0);
+  const bySignature = new Map<TimeSignature, { candidate: MeterCandidate; best: number }>();
+  HYPOTHESES.forEach((hypothesis, i) => {
+    const confidence = total > 0 ? scores[i] / total : i === 0 ? 1 : 0;
+    const merged = bySignature.get(hypothesis.timeSignature);
+    if (!merged) {
+      const candidate = { timeSignature: hypothesis.timeSignature, beatsPerBar: hypothesis.beatsPerBar, confidence };
+      bySignature.set(hypothesis.timeSignature, { candidate, best: scores[i] });
+      return;
+    }
+    merged.candidate.confidence += confidence;
+    if (scores[i] > merged.best) {
+      merged.candidate.beatsPerBar = hypothesis.beatsPerBar;
+      merged.best = scores[i];
+    }
+  });
+
+  const candidates = [...bySignature.values()].map(({ candidate }) => candidate);
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,208 @@
+import type { PCMInput } from "./audio-analyzer";
+import { nearestZeroCrossing } from "./dsp";
+import { OnsetEnvelope, onsetEnvelopeTiming } from "./tempo-detection";
+
+export interface Onset {
+  time: number; // seconds
+  strength: number; // 0 to 1, relative to the strongest onset
+}
+
+export interface Slice {
+  start: number; // seconds
+  end: number;
+}
+
+export interface SliceOptions {
+  sensitivity?: number; // 0 to 1; higher keeps weaker onsets. Default 0.5
+  snapTo?: number[]; // Grid times (e.g. beats) each cut moves to, if given
+  minLength?: number; // seconds, default MIN_SLICE_LENGTH
+}
+
+// Peak picking (after Dixon 2006): a frame is an onset when it is the local maximum within
+// PEAK_RADIUS frames and stands above the mean of the surrounding MEAN_RADIUS frames
+const PEAK_RADIUS = 3;
+const MEAN_RADIUS = 10;
+// How far a cut may move to reach a zero crossing
+const ZERO_CROSSING_RADIUS = 0.005; // seconds
+// Closer onsets are the same event
+const MIN_ONSET_GAP = 0.05; // seconds
+const MIN_SLICE_LENGTH = 0.05; // seconds
+// A cut this close to the start only trims the lead-in, so it is folded into the first slice
+const LEAD_IN = 0.1; // seconds
+
+// Refinement: the flux peak sits at a frame centre, up to half an FFT frame after the
+// transient. The cut moves to the largest short-block energy rise in this window around it.
+const REFINE_BEFORE = 0.03; // seconds
+const REFINE_AFTER = 0.01;
+const REFINE_BLOCK = 128; // samples
+const REFINE_STEP = 32;
+
+// Refined attack times, one per envelope value, worked out as samples arrive: by the time the
+// peaks are known, the samples around them are gone. Only running sums of squares are kept.
+export interface AttackTracker {
+  push(block: Float32Array): void; // The next samples; the block isn't kept
+  attacks(count: number): number[]; // Seconds, for the first `count` envelope values
+}
+
+export function createAttackTracker(sampleRate: number): AttackTracker {
+  const { frameRate, timeOffset } = onsetEnvelopeTiming(sampleRate);
+  const attacks: number[] = [];
+  // energy[k] is the sum of squares of samples [energyStart, energyStart + k)
+  let energy = new Float64Array(1);
+  let energyStart = 0;
+  let received = 0;
+
+  // Positions searched for the value at `frame`; the search reads REFINE_BLOCK either side
+  const searchWindow = (frame: number) => {
+    const time = timeOffset + frame / frameRate;
+    return {
+      time,
+      from: Math.max(REFINE_BLOCK, Math.round((time - REFINE_BEFORE) * sampleRate)),
+      to: Math.round((time + REFINE_AFTER) * sampleRate),
+    };
+  };
+
+  const blockEnergy = (start: number) => energy[start + REFINE_BLOCK - energyStart] - energy[start - energyStart];
+
+  // Largest short-block energy rise in the window, reading no further than `end`
+  const refine = (frame: number, end: number) => {
+    const { time, from, to } = searchWindow(frame);
+    let best = Math.round(time * sampleRate);
+    let bestRise = -Infinity;
+    for (let i = from; i <= Math.min(end - REFINE_BLOCK, to); i += REFINE_STEP) {
+      const rise = blockEnergy(i) - blockEnergy(i - REFINE_BLOCK);
+      if (rise > bestRise) {
+        bestRise = rise;
+        best = i;
+      }
+    }
+    return best / sampleRate;
+  };
+
+  return {
+    push(block) {
+      const held = energy.length - 1;
+      const grown = new Float64Array(held + block.length + 1);
+      grown.set(energy);
+      let sum = energy[held];
+      for (let i = 0; i < block.length; i++) {
+        sum += block[i] * block[i];
+        grown[held + i + 1] = sum;
+      }
+      energy = grown;
+      received += block.length;
+
+      // A window is final once its whole search has arrived; later samples can't change it
+      while (searchWindow(attacks.length).to + REFINE_BLOCK <= received) {
+        attacks.push(refine(attacks.length, received));
+      }
+
+      // Drop the sums the remaining windows don't read, rebased so they stay small
+      const keepFrom = Math.min(received, searchWindow(attacks.length).from - REFINE_BLOCK);
+      if (keepFrom > energyStart) {
+        const dropped = energy[keepFrom - energyStart];
+        energy = energy.slice(keepFrom - energyStart).map((value) => value - dropped);
+        energyStart = keepFrom;
+      }
+    },
+
+    attacks(count) {
+      // Windows still open at the end are cut short by it
+      const all = attacks.slice(0, count);
+      for (let frame = all.length; frame < count; frame++) all.push(refine(frame, received));
+      return all;
+    },
+  };
+}
+
+// Onset times from the spectral-flux envelope, refined against the signal itself (see
+// createAttackTracker). Every peak is kept with its strength, so the slicing sensitivity can
+// change without re-running the analysis.
+export function detectOnsets(envelope: OnsetEnvelope, attacks: number[]): Onset[] {
+  const values = envelope.values;
+  const peaks: { frame: number; strength: number }[] = [];
+
+  for (let frame = 0; frame < values.length; frame++) {
+    const value = values[frame];
+    if (value <= 0) continue;
+
+    let isPeak = true;
+    for (let j = Math.max(0, frame - PEAK_RADIUS); j <= Math.min(values.length - 1, frame + PEAK_RADIUS); j++) {
+      if (values[j] > value || (values[j] === value && j < frame)) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (!isPeak) continue;
+
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, frame - MEAN_RADIUS); j <= Math.min(values.length - 1, frame + MEAN_RADIUS); j++) {
+      sum += values[j];
+      count++;
+    }
+    const strength = value - sum / count;
+    if (strength > 0) peaks.push({ frame, strength });
+  }
+
+  const maxStrength = peaks.reduce((max, peak) => Math.max(max, peak.strength), 0) || 1;
+  const onsets: Onset[] = [];
+
+  for (const { frame, strength } of peaks) {
+    const time = attacks[frame];
+    const previous = onsets[onsets.length - 1];
+    const normalized = strength / maxStrength;
+
+    if (previous && time - previous.time < MIN_ONSET_GAP) {
+      if (normalized > previous.strength) onsets[onsets.length - 1] = { time, strength: normalized };
+      continue;
+    }
+    onsets.push({ time, strength: normalized });
+  }
+
+  return onsets.map(({ time, strength }) => ({
+    time: Math.round(time * 10000) / 10000,
+    strength: Math.round(strength * 1000) / 1000,
+  }));
+}
+
+function nearest(grid: number[], time: number): number {
+  let best = grid[0];
+  for (const point of grid) {
+    if (Math.abs(point - time) < Math.abs(best - time)) best = point;
+  }
+  return best;
+}
+
+// Cuts the sample at the onsets that pass the sensitivity threshold. Slices cover the whole
+// sample: the first starts at 0, the last ends at the sample's end.
+export function sliceAtOnsets(onsets: Onset[], duration: number, options: SliceOptions = {}): Slice[] {
+  const { sensitivity = 0.5, snapTo, minLength = MIN_SLICE_LENGTH } = options;
+  const threshold = 1 - sensitivity;
+
+  let cuts = onsets.filter((onset) => onset.strength >= threshold).map((onset) => onset.time);
+  if (snapTo && snapTo.length > 0) {
+    cuts = cuts.map((time) => nearest(snapTo, time));
+  }
+
+  const boundaries = [0];
+  for (const cut of [...cuts].sort((a, b) => a - b)) {
+    if (cut < LEAD_IN) continue;
+    if (cut - boundaries[boundaries.length - 1] >= minLength && duration - cut >= minLength) {
+      boundaries.push(cut);
+    }
+  }
+  boundaries.push(duration);
+
+  return boundaries.slice(1).map((end, i) => ({ start: boundaries[i], end }));
+}
+
+// Copies a slice out of the PCM, with both cuts moved to the nearest zero crossing of the
+// first channel so the slice doesn't click on the pad
+export function extractSlice({ channels, sampleRate }: PCMInput, slice: Slice): PCMInput {
+  const radius = Math.round(ZERO_CROSSING_RADIUS * sampleRate);
+  const reference = channels[0];
+  const start = nearestZeroCrossing(reference, Math.round(slice.start * sampleRate), radius);
+  const end = Math.max(start + 1, nearestZeroCrossing(reference, Math.round(slice.end * sampleRate), radius));
+  return { channels: channels.map((channel) => channel.slice(start, end)), sampleRate };
+}
@@ -0,0 +1,258 @@
+import type { PCMInput } from "./audio-analyzer";
+
+// Pure-TypeScript WAV/AIFF decoder for environments without decodeAudioData (Node, tests).
+// Handles uncompressed integer PCM (8-32 bit) and IEEE float (32/64 bit).
+
+export type PCMFileFormat = "wav" | "aiff";
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export interface Chunk {
+  id: string;
+  offset: number; // start of chunk body
+  size: number; // Bytes present, which can be fewer than declared
+  declaredSize: number;
+}
+
+// Where the samples are and how to read them; enough to decode any run of frames on its own
+export interface PCMLayout {
+  numChannels: number;
+  sampleRate: number;
+  bytesPerSample: number;
+  isFloat: boolean;
+  littleEndian: boolean;
+  signed8Bit: boolean; // WAV stores 8-bit as unsigned, AIFF as signed
+  dataOffset: number; // Byte offset of the first frame in the file
+  frameCount: number;
+}
+
+export function readId(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+export function readChunks(view: DataView, start: number, littleEndian: boolean): Chunk[] {
+  const chunks: Chunk[] = [];
+  let offset = start;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = readId(view, offset);
+    const declaredSize = view.getUint32(offset + 4, littleEndian);
+    const body = offset + 8;
+    // Streamed/truncated files can declare more data than is present
+    const size = Math.min(declaredSize, view.byteLength - body);
+    chunks.push({ id, offset: body, size, declaredSize });
+    // Chunks are padded to an even length
+    offset = body + declaredSize + (declaredSize % 2);
+  }
+
+  return chunks;
+}
+
+// 80-bit IEEE 754 extended precision, used for the AIFF sample rate
+function readExtended(view: DataView, offset: number): number {
+  const signAndExponent = view.getUint16(offset);
+  const hi = view.getUint32(offset + 2);
+  const lo = view.getUint32(offset + 6);
+  const exponent = signAndExponent & 0x7fff;
+
+  if (exponent === 0 && hi === 0 && lo === 0) return 0;
+
+  const mantissa = hi * 2 ** 32 + lo;
+  const value = mantissa * 2 ** (exponent - 16383 - 63);
+  return signAndExponent & 0x8000 ? -value : value;
+}
+
+function createSampleReader(layout: PCMLayout): (view: DataView, offset: number) => number {
+  const { bytesPerSample, isFloat, littleEndian, signed8Bit } = layout;
+
+  if (isFloat) {
+    if (bytesPerSample === 4) return (view, offset) => view.getFloat32(offset, littleEndian);
+    if (bytesPerSample === 8) return (view, offset) => view.getFloat64(offset, littleEndian);
+    throw new Error(`Unsupported float sample size: ${bytesPerSample * 8} bits`);
+  }
+
+  // Samples narrower than their container are left-justified, so scaling by the
+  // container width is correct for e.g. 20-bit audio in 24-bit slots
+  switch (bytesPerSample) {
+    case 1:
+      return signed8Bit
+        ? (view, offset) => view.getInt8(offset) / 128
+        : (view, offset) => (view.getUint8(offset) - 128) / 128;
+    case 2:
+      return (view, offset) => view.getInt16(offset, littleEndian) / 32768;
+    case 3:
+      return (view, offset) => {
+        const b0 = view.getUint8(offset);
+        const b1 = view.getUint8(offset + 1);
+        const b2 = view.getUint8(offset + 2);
+        const value = littleEndian ? (b2 << 16) | (b1 << 8) | b0 : (b0 << 16) | (b1 << 8) | b2;
+        return (value & 0x800000 ? value - 0x1000000 : value) / 8388608;
+      };
+    case 4:
+      return (view, offset) => view.getInt32(offset, littleEndian) / 2147483648;
+    default:
+      throw new Error(`Unsupported integer sample size: ${bytesPerSample * 8} bits`);
+  }
+}
+
+export function frameSize({ numChannels, bytesPerSample }: PCMLayout): number {
+  return numChannels * bytesPerSample;
+}
+
+function deinterleave(view: DataView, dataOffset: number, frameCount: number, layout: PCMLayout): PCMInput {
+  const { numChannels, bytesPerSample, sampleRate } = layout;
+  const size = frameSize(layout);
+  const readSample = createSampleReader(layout);
+  const channels: Float32Array[] = [];
+
+  for (let c = 0; c < numChannels; c++) {
+    channels.push(new Float32Array(frameCount));
+  }
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const frameOffset = dataOffset + frame * size;
+    for (let c = 0; c < numChannels; c++) {
+      channels[c][frame] = readSample(view, frameOffset + c * bytesPerSample);
+    }
+  }
+
+  return { channels, sampleRate };
+}
+
+// fileSize is the whole file's, so a layout can be read from just its first bytes
+function wavLayout(view: DataView, fileSize: number): PCMLayout {
+  const chunks = readChunks(view, 12, true);
+  const fmt = chunks.find((chunk) => chunk.id === "fmt ");
+  const data = chunks.find((chunk) => chunk.id === "data");
+  if (!fmt || fmt.size < 16) throw new Error("WAV file has no valid fmt chunk");
+  if (!data) throw new Error("WAV file has no data chunk");
+
+  let formatCode = view.getUint16(fmt.offset, true);
+  const numChannels = view.getUint16(fmt.offset + 2, true);
+  const sampleRate = view.getUint32(fmt.offset + 4, true);
+  const blockAlign = view.getUint16(fmt.offset + 12, true);
+
+  if (formatCode === WAVE_FORMAT_EXTENSIBLE && fmt.size >= 40) {
+    // The first two bytes of the SubFormat GUID carry the actual format code
+    formatCode = view.getUint16(fmt.offset + 24, true);
+  }
+
+  if (formatCode !== WAVE_FORMAT_PCM && formatCode !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new Error(`Unsupported WAV encoding (format 0x${formatCode.toString(16)}); only PCM and float are supported`);
+  }
+
+  const bytesPerSample = blockAlign / Math.max(1, numChannels);
+  const dataSize = Math.min(data.declaredSize, fileSize - data.offset);
+  return {
+    numChannels,
+    sampleRate,
+    bytesPerSample,
+    isFloat: formatCode === WAVE_FORMAT_IEEE_FLOAT,
+    littleEndian: true,
+    signed8Bit: false,
+    dataOffset: data.offset,
+    frameCount: Math.floor(Math.max(0, dataSize) / Math.max(1, blockAlign)),
+  };
+}
+
+function aiffLayout(view: DataView, fileSize: number, isAifc: boolean): PCMLayout {
+  const chunks = readChunks(view, 12, false);
+  const comm = chunks.find((chunk) => chunk.id === "COMM");
+  const ssnd = chunks.find((chunk) => chunk.id === "SSND");
+  if (!comm || comm.size < 18) throw new Error("AIFF file has no valid COMM chunk");
+  if (!ssnd || ssnd.size < 8) throw new Error("AIFF file has no SSND chunk");
+
+  const numChannels = view.getInt16(comm.offset);
+  const numFrames = view.getUint32(comm.offset + 2);
+  const sampleSize = view.getInt16(comm.offset + 6);
+  const sampleRate = readExtended(view, comm.offset + 8);
+
+  let isFloat = false;
+  let littleEndian = false;
+  if (isAifc && comm.size >= 22) {
+    const compression = readId(view, comm.offset + 18);
+    if (compression === "sowt") {
+      littleEndian = true;
+    } else if (compression === "fl32" || compression === "FL32" || compression === "fl64" || compression === "FL64") {
+      isFloat = true;
+    } else if (compression !== "NONE" && compression !== "twos") {
+      throw new Error(`Unsupported AIFF-C compression: ${compression}`);
+    }
+  }
+
+  const bytesPerSample = Math.ceil(sampleSize / 8);
+  // SSND starts with an offset (to the first sample frame) and a block size
+  const dataOffset = ssnd.offset + 8 + view.getUint32(ssnd.offset);
+  const dataEnd = Math.min(ssnd.offset + ssnd.declaredSize, fileSize);
+  const frameBytes = Math.max(1, numChannels * bytesPerSample);
+  return {
+    numChannels,
+    sampleRate,
+    bytesPerSample,
+    isFloat,
+    littleEndian,
+    signed8Bit: true,
+    dataOffset,
+    frameCount: Math.max(0, Math.min(numFrames, Math.floor((dataEnd - dataOffset) / frameBytes))),
+  };
+}
+
+export function toDataView(bytes: ArrayBuffer | Uint8Array): DataView {
+  return bytes instanceof Uint8Array
+    ? new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    : new DataView(bytes);
+}
+
+export function sniffPCMFormat(bytes: ArrayBuffer | Uint8Array): PCMFileFormat | null {
+  const view = toDataView(bytes);
+  if (view.byteLength < 12) return null;
+
+  const container = readId(view, 0);
+  const type = readId(view, 8);
+  if (container === "RIFF" && type === "WAVE") return "wav";
+  if (container === "FORM" && (type === "AIFF" || type === "AIFC")) return "aiff";
+  return null;
+}
+
+// Enough for the headers of any WAV or AIFF, including tag chunks placed before the samples
+export const PCM_HEADER_BYTES = 1 << 20;
+
+// Reads the layout from the start of a file, which may be all of it or just its header.
+// fileSize defaults to the bytes given.
+export function readPCMLayout(bytes: ArrayBuffer | Uint8Array, fileSize = bytes.byteLength): PCMLayout {
+  const view = toDataView(bytes);
+  let layout: PCMLayout;
+  switch (sniffPCMFormat(bytes)) {
+    case "wav":
+      layout = wavLayout(view, fileSize);
+      break;
+    case "aiff":
+      layout = aiffLayout(view, fileSize, readId(view, 8) === "AIFC");
+      break;
+    default:
+      throw new Error("Unrecognized file format; expected WAV or AIFF");
+  }
+  if (layout.numChannels < 1) {
+    throw new Error("File declares no audio channels");
+  }
+  // Fails on unsupported sample sizes before any audio is read
+  createSampleReader(layout);
+  return layout;
+}
+
+// Decodes whole frames from bytes cut out of the sample data at a frame boundary
+export function decodePCMFrames(bytes: ArrayBuffer | Uint8Array, layout: PCMLayout): PCMInput {
+  return deinterleave(toDataView(bytes), 0, Math.floor(bytes.byteLength / frameSize(layout)), layout);
+}
+
+export function decodePCM(bytes: ArrayBuffer | Uint8Array): PCMInput {
+  const layout = readPCMLayout(bytes);
+  return deinterleave(toDataView(bytes), layout.dataOffset, layout.frameCount, layout);
+}
@@ -0,0 +1,150 @@
+import { maxOf, rmsEnvelope } from "./dsp";
+import { KEY_NAMES } from "./key-detection";
+
+// Single hits (808s, plucks, stabs) have no key to speak of, only a pitch: one-shots get a
+// fundamental estimate instead of a key (see classifySampleType in sample-classifier.ts)
+
+export interface RootNote {
+  note: string; // Pitch class, as in KEY_NAMES
+  octave: number; // Scientific pitch notation: A4 = 440 Hz, MIDI 69
+  midi: number;
+  cents: number; // Offset from the equal-tempered note at A=440, -50 to 50
+  frequency: number; // Hz
+  confidence: number; // 0 to 1
+}
+
+// YIN (de Cheveigné & Kawahara 2002) search range: the bottom of an 808 to a high lead
+const MIN_FREQUENCY = 30; // Hz
+const MAX_FREQUENCY = 2000;
+const YIN_THRESHOLD = 0.15;
+// The pitch settles after the attack; the body that follows is what gets measured
+const LEVEL_BLOCK = 0.01; // seconds
+const ATTACK_SKIP = 0.03; // seconds
+const ANALYSIS_LENGTH = 0.8; // seconds
+const HOP = 0.02; // seconds
+// Frames quieter than this, relative to the loudest, are decay tail and skipped
+const SILENCE_RATIO = 0.003; // about -50 dB
+// Below this share of voiced frames the sample has no clear pitch (snares, hats, noise)
+const MIN_VOICED_RATIO = 0.3;
+
+function frameRms(data: Float32Array, start: number, length: number): number {
+  let sum = 0;
+  for (let i = start; i < start + length; i++) {
+    sum += data[i] * data[i];
+  }
+  return Math.sqrt(sum / length);
+}
+
+// Period in samples (fractional) and its aperiodicity, or null for an unvoiced frame
+function yinFrame(
+  data: Float32Array,
+  start: number,
+  window: number,
+  minLag: number,
+  maxLag: number
+): { period: number; aperiodicity: number } | null {
+  // Cumulative mean normalized difference function
+  const difference = new Float32Array(maxLag + 2);
+  difference[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = start; i < start + window; i++) {
+      const delta = data[i] - data[i + lag];
+      sum += delta * delta;
+    }
+    runningSum += sum;
+    difference[lag] = runningSum > 0 ? (sum * lag) / runningSum : 1;
+  }
+
+  // First dip under the threshold, followed down to its minimum
+  let lag = minLag;
+  while (lag <= maxLag && difference[lag] >= YIN_THRESHOLD) lag++;
+  if (lag > maxLag) return null;
+  while (lag < maxLag && difference[lag + 1] < difference[lag]) lag++;
+
+  // Parabolic interpolation between neighbouring lags
+  const a = difference[lag - 1];
+  const b = difference[lag];
+  const c = difference[lag + 1];
+  const denominator = a - 2 * b + c;
+  const shift = denominator > 0 ? (0.5 * (a - c)) / denominator : 0;
+  return { period: lag + Math.max(-0.5, Math.min(0.5, shift)), aperiodicity: b };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function frequencyToRootNote(frequency: number, confidence: number): RootNote {
+  const exact = 69 + 12 * Math.log2(frequency / 440);
+  const midi = Math.round(exact);
+  return {
+    note: KEY_NAMES[((midi % 12) + 12) % 12],
+    octave: Math.floor(midi / 12) - 1,
+    midi,
+    cents: Math.round((exact - midi) * 100),
+    frequency: Math.round(frequency * 10) / 10,
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
+
+export interface PitchFrame {
+  time: number; // seconds, start of the frame
+  frequency: number | null; // Hz; null when unvoiced
+  aperiodicity: number; // YIN dip depth, 0 for a pure tone, 1 when unvoiced
+}
+
+// YIN pitch track over [from, to) seconds. Frames quieter than SILENCE_RATIO of the loudest
+// one in range are left out, so decay tails don't count as unvoiced.
+export function trackPitch(
+  data: Float32Array,
+  sampleRate: number,
+  from: number,
+  to: number,
+  minFrequency = MIN_FREQUENCY,
+  maxFrequency = MAX_FREQUENCY
+): PitchFrame[] {
+  const maxLag = Math.ceil(sampleRate / minFrequency);
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const window = maxLag;
+  const hop = Math.round(HOP * sampleRate);
+  const first = Math.max(0, Math.round(from * sampleRate));
+  const last = Math.min(data.length - window - maxLag - 2, Math.round(to * sampleRate));
+
+  const starts: number[] = [];
+  for (let start = first; start <= last; start += hop) starts.push(start);
+  const levels = starts.map((start) => frameRms(data, start, window));
+  const loudest = maxOf(levels, 0);
+  if (loudest === 0) return [];
+
+  const frames: PitchFrame[] = [];
+  starts.forEach((start, i) => {
+    if (levels[i] < loudest * SILENCE_RATIO) return;
+    const frame = yinFrame(data, start, window, minLag, maxLag);
+    frames.push({
+      time: start / sampleRate,
+      frequency: frame ? sampleRate / frame.period : null,
+      aperiodicity: frame ? frame.aperiodicity : 1,
+    });
+  });
+  return frames;
+}
+
+// Fundamental of a one-shot: YIN over the body of the sound after its loudest point,
+// the median of the voiced frames so a pitch drop (808 glide) reads as its centre.
+// Null when too few frames are voiced to call it pitched.
+export function detectRootNote(data: Float32Array, sampleRate: number): RootNote | null {
+  const envelope = rmsEnvelope(data, Math.round(LEVEL_BLOCK * sampleRate));
+  const from = Math.max(0, envelope.indexOf(maxOf(envelope))) * LEVEL_BLOCK + ATTACK_SKIP;
+  const frames = trackPitch(data, sampleRate, from, from + ANALYSIS_LENGTH);
+  const voiced = frames.filter((frame) => frame.frequency !== null);
+
+  const voicedRatio = frames.length > 0 ? voiced.length / frames.length : 0;
+  if (voicedRatio < MIN_VOICED_RATIO) return null;
+
+  const aperiodicity = voiced.reduce((sum, frame) => sum + frame.aperiodicity, 0) / voiced.length;
+  return frequencyToRootNote(median(voiced.map((frame) => frame.frequency!)), voicedRatio * (1 - aperiodicity));
+}
@@ -0,0 +1,21 @@
+export type AnalysisStage = "decode" | "stream" | "onset" | "beats" | "key" | "loudness";
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  percent: number; // 0 to 100, per stage
+}
+
+export type ProgressCallback = (progress: AnalysisProgress) => void;
+
+// Only reports when the whole percentage changes, so callers aren't flooded once per frame
+export function createStageReporter(stage: AnalysisStage, total: number, onProgress?: ProgressCallback) {
+  let lastPercent = -1;
+  return (done: number) => {
+    if (!onProgress) return;
+    const percent = total > 0 ? Math.min(100, Math.floor((done / total) * 100)) : 100;
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      onProgress({ stage, percent });
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzePCM } from "./audio-analyzer";
+import { detectRootNote } from "./pitch-detection";
+import { classifySample, classifySampleType, measureSampleFeatures } from "./sample-classifier";
+import { clickTrain } from "./synthetic-signals";
+
+// An hour of a 220 Hz tone pulsing twice a second, at a low rate to keep it small: 360,000
+// level blocks, far more arguments than Math.max can take spread
+function longMix(sampleRate: number, seconds: number): Float32Array {
+  const data = new Float32Array(sampleRate * seconds);
+  for (let i = 0; i < data.length; i++) {
+    const t = i / sampleRate;
+    data[i] = Math.sin(2 * Math.PI * 220 * t) * Math.exp(-(t % 0.5) * 8) * 0.5;
+  }
+  return data;
+}
+
+describe("long input", () => {
+  const sampleRate = 4000;
+  const data = longMix(sampleRate, 3600);
+
+  it("measures the features of an hour of audio", () => {
+    const features = measureSampleFeatures(data, sampleRate);
+    assert.ok(Math.abs(features.hitRate - 2) < 0.1, `${features.hitRate} hits per second`);
+    assert.ok(Math.abs(features.medianPitch - 220) < 5, `${features.medianPitch} Hz`);
+  });
+
+  it("finds the root note of an hour of audio", () => {
+    assert.equal(detectRootNote(data, sampleRate)?.note, "A");
+  });
+});
+
+describe("classifySample", () => {
+  const sampleRate = 44100;
+
+  function classify(data: Float32Array) {
+    const features = measureSampleFeatures(data, sampleRate);
+    return classifySample(features, classifySampleType(features), null);
+  }
+
+  it("leaves silence, empty and very short files unknown", () => {
+    for (const data of [new Float32Array(sampleRate * 3), new Float32Array(0), new Float32Array(220).fill(0.5)]) {
+      assert.deepEqual(classify(data), { category: "unknown", confidence: 0 }, `${data.length} samples`);
+    }
+  });
+
+  it("leaves noise below -60 dBFS unknown", () => {
+    const data = new Float32Array(sampleRate * 3).map(() => (Math.random() * 2 - 1) * 0.0003);
+    assert.equal(classify(data).category, "unknown");
+  });
+
+  it("hears a click train as drums, short of certain", () => {
+    const { sampleClass } = analyzePCM(clickTrain(120, 12));
+    assert.equal(sampleClass.category, "drum-loop");
+    assert.ok(sampleClass.confidence < 1, `${sampleClass.confidence}`);
+  });
+});
@@ -0,0 +1,321 @@
+import { createExcerptRecorder, maxOf } from "./dsp";
+import { RootNote, trackPitch } from "./pitch-detection";
+import { createSTFT } from "./stft";
+
+// Rule-based sample classification for sorting libraries. A handful of features, each
+// mapped onto a 0..1 scale, are combined into one score per category; the confidence is
+// the winning score's share of the total. Silence and slivers too short to read are
+// "unknown" rather than a guess.
+
+export type SampleType = "one-shot" | "loop";
+
+export type SampleCategory =
+  | "drum-loop"
+  | "melodic-loop"
+  | "one-shot-percussion"
+  | "one-shot-tonal"
+  | "vocal"
+  | "texture"
+  | "unknown";
+
+export const SAMPLE_CATEGORIES: SampleCategory[] = [
+  "drum-loop",
+  "melodic-loop",
+  "one-shot-percussion",
+  "one-shot-tonal",
+  "vocal",
+  "texture",
+  "unknown",
+];
+
+export const SAMPLE_CATEGORY_LABELS: Record<SampleCategory, string> = {
+  "drum-loop": "Drum loop",
+  "melodic-loop": "Melodic loop",
+  "one-shot-percussion": "One-shot percussion",
+  "one-shot-tonal": "One-shot tonal",
+  vocal: "Vocal-like",
+  texture: "Texture / ambient",
+  unknown: "Silent or too short",
+};
+
+export interface SampleClass {
+  category: SampleCategory;
+  confidence: number; // 0 to 1
+}
+
+export interface SampleFeatures {
+  duration: number; // seconds
+  peakLevel: number; // RMS of the loudest level block, 0 to 1; 0 when shorter than a block
+  hits: number; // Level-envelope hits
+  hitRate: number; // Per second
+  flatness: number; // Mean spectral flatness, 0 (pure tones) to 1 (white noise)
+  voicedRatio: number; // Share of non-silent frames with a clear pitch
+  glideRatio: number; // Share of voiced steps that bend (vibrato, portamento) rather than hold or jump
+  medianPitch: number; // Hz, 0 when nothing is voiced
+  decay: number; // Seconds from the loudest block until the level drops below HIT_FLOOR of it
+}
+
+// Longer samples are loops whatever their envelope looks like
+const ONE_SHOT_MAX_DURATION = 4; // seconds
+// Shorter or quieter than this, there's nothing to classify
+const MIN_DURATION = 0.02; // seconds
+const SILENT_LEVEL = 0.001; // -60 dBFS
+// With a single category scoring, the share of the total says nothing; it is capped here
+const SOLE_CATEGORY_CONFIDENCE = 0.8;
+// Level envelope used for hits. Spectral flux can't be used here: a one-shot usually starts
+// right at its attack, before the first flux frame, and the flux of a steady tone is all ripple.
+const LEVEL_BLOCK = 0.01; // seconds
+// A new hit: the level at least doubles (+6 dB) over the average of the last few blocks...
+const HIT_RISE = 2;
+const HIT_LOOKBACK = 5; // blocks
+// ...and reaches within -20 dB of the loudest block
+const HIT_FLOOR = 0.1;
+// Rises this soon after a hit are still its attack
+const ATTACK_LENGTH = 0.1; // seconds
+
+// Spectral flatness is averaged over at most this many frames, spread over the file
+const FLATNESS_FFT_SIZE = 2048;
+const FLATNESS_FRAMES = 200;
+const SILENT_FRAME = 0.001; // -30 dB below the loudest frame's energy (frames under SILENT_LEVEL never count)
+// Pitch is tracked in a few short windows spread over the file, to keep YIN affordable on
+// long loops while still seeing consecutive frames
+const PITCH_WINDOWS = 8;
+const PITCH_WINDOW_LENGTH = 0.5; // seconds
+const VOICE_MIN_FREQUENCY = 70; // Hz
+const VOICE_MAX_FREQUENCY = 1100;
+// Past its last frame start, trackPitch reads a YIN window and the largest lag, both a
+// period of the lowest frequency, and two more samples
+function pitchReach(sampleRate: number): number {
+  return 2 * Math.ceil(sampleRate / VOICE_MIN_FREQUENCY) + 2;
+}
+// Pitch steps between consecutive frames (20 ms) that count as bending, in cents: above
+// a held note's jitter, below a jump to the next note
+const GLIDE_MIN_CENTS = 5;
+const GLIDE_MAX_CENTS = 80;
+
+// Where x sits between lo (0) and hi (1), clamped
+function ramp(x: number, lo: number, hi: number): number {
+  return Math.max(0, Math.min(1, (x - lo) / (hi - lo)));
+}
+
+// Block indices where a new hit starts
+function detectHits(levels: number[]): number[] {
+  const floor = maxOf(levels, 0) * HIT_FLOOR;
+  const attackBlocks = Math.round(ATTACK_LENGTH / LEVEL_BLOCK);
+  const first = levels.findIndex((level) => level > 0 && level >= floor);
+  if (first < 0) return [];
+
+  const hits = [first];
+  for (let i = first + attackBlocks; i < levels.length; i++) {
+    if (levels[i] < floor || i < hits[hits.length - 1] + attackBlocks) continue;
+    const recent = levels.slice(Math.max(0, i - HIT_LOOKBACK), i);
+    const average = recent.reduce((sum, level) => sum + level, 0) / recent.length;
+    if (levels[i] >= average * HIT_RISE) hits.push(i);
+  }
+  return hits;
+}
+
+// A one-shot is short and has a single hit: once it starts, the level never jumps back up
+export function classifySampleType(features: SampleFeatures): SampleType {
+  if (features.duration > ONE_SHOT_MAX_DURATION) return "loop";
+  return features.hits > 1 ? "loop" : "one-shot";
+}
+
+// Where the flatness frames start, spread over a signal of `length` samples
+function flatnessFrameStarts(length: number): number[] {
+  const count = Math.max(1, Math.floor(length / FLATNESS_FFT_SIZE));
+  const step = Math.max(FLATNESS_FFT_SIZE, Math.floor(length / Math.min(count, FLATNESS_FRAMES)));
+  const starts: number[] = [];
+  for (let start = 0; start + FLATNESS_FFT_SIZE <= length; start += step) starts.push(start);
+  return starts;
+}
+
+// Mean flatness of the frames; frames the signal didn't reach are short and skipped
+function meanFlatness(frames: Float32Array[]): number {
+  const silentEnergy = SILENT_LEVEL * SILENT_LEVEL * FLATNESS_FFT_SIZE;
+  const spectra: { flatness: number; energy: number }[] = [];
+  const stft = createSTFT(FLATNESS_FFT_SIZE);
+
+  for (const frame of frames) {
+    if (frame.length < FLATNESS_FFT_SIZE) continue;
+    let frameEnergy = 0;
+    for (let i = 0; i < FLATNESS_FFT_SIZE; i++) frameEnergy += frame[i] * frame[i];
+    if (frameEnergy < silentEnergy) continue;
+
+    const magnitude = stft.spectrum(frame);
+    let logSum = 0;
+    let sum = 0;
+    for (let i = 1; i < magnitude.length; i++) {
+      const power = magnitude[i] * magnitude[i] + 1e-20;
+      logSum += Math.log(power);
+      sum += power;
+    }
+    const bins = magnitude.length - 1;
+    spectra.push({ flatness: Math.exp(logSum / bins) / (sum / bins), energy: sum });
+  }
+
+  // Near-silent frames are all noise floor, or a decay tail that reads as a pure tone, so
+  // they are left out
+  const loudest = maxOf(spectra.map((frame) => frame.energy), 0);
+  const audible = spectra.filter((frame) => frame.energy >= loudest * SILENT_FRAME);
+  if (audible.length === 0) return 0;
+  return audible.reduce((total, frame) => total + frame.flatness, 0) / audible.length;
+}
+
+// The samples each pitch window reads, spread over a signal of `length` samples
+function pitchWindowRanges(length: number, sampleRate: number): { start: number; end: number }[] {
+  const duration = length / sampleRate;
+  const windows = Math.max(1, Math.min(PITCH_WINDOWS, Math.floor(duration / PITCH_WINDOW_LENGTH)));
+  return Array.from({ length: windows }, (_, w) => {
+    const start = Math.max(0, Math.round((((duration - PITCH_WINDOW_LENGTH) * (w + 0.5)) / windows) * sampleRate));
+    return { start, end: Math.min(length, start + Math.round(PITCH_WINDOW_LENGTH * sampleRate) + pitchReach(sampleRate)) };
+  });
+}
+
+function pitchFeatures(windows: Float32Array[], sampleRate: number) {
+  let frames = 0;
+  let steps = 0;
+  let glides = 0;
+  const pitches: number[] = [];
+
+  for (const window of windows) {
+    const track = trackPitch(window, sampleRate, 0, PITCH_WINDOW_LENGTH, VOICE_MIN_FREQUENCY, VOICE_MAX_FREQUENCY);
+    frames += track.length;
+    for (let i = 0; i < track.length; i++) {
+      const frequency = track[i].frequency;
+      if (frequency === null) continue;
+      pitches.push(frequency);
+      const previous = track[i - 1]?.frequency;
+      if (!previous) continue;
+      const cents = Math.abs(1200 * Math.log2(frequency / previous));
+      steps++;
+      if (cents >= GLIDE_MIN_CENTS && cents <= GLIDE_MAX_CENTS) glides++;
+    }
+  }
+
+  pitches.sort((a, b) => a - b);
+  return {
+    voicedRatio: frames > 0 ? pitches.length / frames : 0,
+    glideRatio: steps > 0 ? glides / steps : 0,
+    medianPitch: pitches.length > 0 ? pitches[pitches.length >> 1] : 0,
+  };
+}
+
+// Builds the features as samples arrive, keeping the level envelope, the flatness frames and
+// pitch windows (both spread over the `total` samples expected), and the whole signal only
+// while it is short enough to be a one-shot
+export interface SampleFeatureTracker {
+  push(block: Float32Array): void; // The next samples; the block isn't kept
+  features(): SampleFeatures; // Of everything pushed so far
+  oneShot(): Float32Array | null; // Everything pushed, if a one-shot is possible; for detectRootNote
+}
+
+export function createSampleFeatureTracker(sampleRate: number, total: number): SampleFeatureTracker {
+  const levelBlock = Math.round(LEVEL_BLOCK * sampleRate);
+  const levels: number[] = [];
+  let levelSum = 0;
+  let levelFilled = 0;
+  let received = 0;
+
+  const flatnessFrames = createExcerptRecorder(
+    flatnessFrameStarts(total).map((start) => ({ start, end: start + FLATNESS_FFT_SIZE }))
+  );
+  const pitchWindows = createExcerptRecorder(pitchWindowRanges(total, sampleRate));
+  const whole = total / sampleRate <= ONE_SHOT_MAX_DURATION ? createExcerptRecorder([{ start: 0, end: total }]) : null;
+
+  return {
+    push(block) {
+      received += block.length;
+      flatnessFrames.push(block);
+      pitchWindows.push(block);
+      whole?.push(block);
+
+      // RMS of consecutive, non-overlapping blocks, as rmsEnvelope
+      for (let i = 0; i < block.length; i++) {
+        levelSum += block[i] * block[i];
+        if (++levelFilled === levelBlock) {
+          levels.push(Math.sqrt(levelSum / levelBlock));
+          levelSum = 0;
+          levelFilled = 0;
+        }
+      }
+    },
+
+    features() {
+      const peak = maxOf(levels, 0);
+      const peakIndex = levels.indexOf(peak);
+      let end = peakIndex;
+      while (end < levels.length && levels[end] >= peak * HIT_FLOOR) end++;
+
+      const duration = received / sampleRate;
+      const hits = detectHits(levels).length;
+
+      return {
+        duration,
+        peakLevel: peak,
+        hits,
+        hitRate: duration > 0 ? hits / duration : 0,
+        flatness: meanFlatness(flatnessFrames.excerpts()),
+        ...pitchFeatures(pitchWindows.excerpts(), sampleRate),
+        decay: (end - Math.max(0, peakIndex)) * LEVEL_BLOCK,
+      };
+    },
+
+    oneShot() {
+      return whole ? whole.excerpts()[0] : null;
+    },
+  };
+}
+
+export function measureSampleFeatures(data: Float32Array, sampleRate: number): SampleFeatures {
+  const tracker = createSampleFeatureTracker(sampleRate, data.length);
+  tracker.push(data);
+  return tracker.features();
+}
+
+export function classifySample(
+  features: SampleFeatures,
+  sampleType: SampleType,
+  rootNote: RootNote | null
+): SampleClass {
+  if (features.duration < MIN_DURATION || features.peakLevel < SILENT_LEVEL) {
+    return { category: "unknown", confidence: 0 };
+  }
+
+  const tonal = 1 - ramp(features.flatness, 0.02, 0.12);
+  const inVoiceRange = features.medianPitch >= 80 && features.medianPitch <= 1000 ? 1 : 0;
+  const vocal = ramp(features.glideRatio, 0.15, 0.45) * ramp(features.voicedRatio, 0.3, 0.7) * inVoiceRange;
+
+  const scores: Record<SampleCategory, number> = {
+    "drum-loop": 0,
+    "melodic-loop": 0,
+    "one-shot-percussion": 0,
+    "one-shot-tonal": 0,
+    vocal,
+    texture: 0,
+    unknown: 0,
+  };
+
+  if (sampleType === "one-shot") {
+    // Pitched and sustained reads as tonal; a kick has a pitch too, but it's gone quickly
+    const toned = Math.max(rootNote?.confidence ?? 0, tonal) * ramp(features.decay, 0.1, 0.4);
+    scores["one-shot-tonal"] = toned * (1 - vocal);
+    scores["one-shot-percussion"] = 1 - Math.max(toned, vocal);
+  } else {
+    // Tones have to ring to make a loop melodic: a click or a tom is a short burst of one
+    const rhythmic = ramp(features.hitRate, 0.3, 1.5);
+    const melodic = tonal * ramp(features.decay, 0.1, 0.4);
+    scores["drum-loop"] = rhythmic * (1 - melodic);
+    scores["melodic-loop"] = rhythmic * melodic * (1 - vocal);
+    scores.texture = (1 - rhythmic) * (1 - vocal);
+  }
+
+  const total = SAMPLE_CATEGORIES.reduce((sum, category) => sum + scores[category], 0);
+  const category = SAMPLE_CATEGORIES.reduce((best, c) => (scores[c] > scores[best] ? c : best));
+  const scoring = SAMPLE_CATEGORIES.filter((c) => scores[c] > 0).length;
+  const share = total > 0 ? scores[category] / total : 0;
+  return {
+    category,
+    confidence: Math.round(Math.min(share, scoring > 1 ? 1 : SOLE_CATEGORY_CONFIDENCE) * 100) / 100,
+  };
+}
@@ -0,0 +1,139 @@
+import type { AnalysisResult } from "./audio-analyzer";
+import { audioBufferToPCM } from "./analyze-audio";
+import type { LoudnessResult } from "./loudness";
+import { formatBPM } from "./tempo-detection";
+import { encodeWAV, WAVBitDepth } from "./wav-encoder";
+
+// "Prepare" export: the trim / normalize / fade pass usually done in an editor, rendered
+// through OfflineAudioContext. Browser only.
+
+export type NormalizeMode = "off" | "peak" | "lufs";
+
+export const NORMALIZE_MODES: NormalizeMode[] = ["off", "peak", "lufs"];
+
+export const PREP_SAMPLE_RATES = [44100, 48000, 96000];
+
+export interface PrepSettings {
+  trimSilence: boolean;
+  trimThreshold: number; // dBFS; quieter lead-in and tail are cut
+  normalize: NormalizeMode;
+  peakTarget: number; // dBFS
+  lufsTarget: number; // LUFS, integrated
+  fadeIn: number; // seconds
+  fadeOut: number;
+  sampleRate: number;
+  bitDepth: WAVBitDepth;
+}
+
+export const DEFAULT_PREP_SETTINGS: PrepSettings = {
+  trimSilence: true,
+  trimThreshold: -60,
+  normalize: "peak",
+  peakTarget: -1,
+  lufsTarget: -14,
+  fadeIn: 0.002,
+  fadeOut: 0.01,
+  sampleRate: 44100,
+  bitDepth: 24,
+};
+
+export interface NormalizationGain {
+  db: number;
+  limited: boolean; // LUFS target not reached because the true peak would pass the ceiling
+}
+
+// LUFS normalization never pushes the true peak above this
+const TRUE_PEAK_CEILING = -1; // dBTP
+// loudness.ts reports silence at these floors
+const SILENT_PEAK = -120; // dBFS
+
+function toDB(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : SILENT_PEAK;
+}
+
+// Sample indices [start, end) between the first and last sample above the threshold on any
+// channel; the whole range when nothing is above it
+export function findSoundBounds(channels: Float32Array[], thresholdDb: number): { start: number; end: number } {
+  const threshold = 10 ** (thresholdDb / 20);
+  const length = channels[0]?.length ?? 0;
+  const isSound = (i: number) => channels.some((channel) => Math.abs(channel[i]) > threshold);
+
+  let start = 0;
+  while (start < length && !isSound(start)) start++;
+  if (start === length) return { start: 0, end: length };
+  let end = length;
+  while (end > start && !isSound(end - 1)) end--;
+  return { start, end };
+}
+
+// Gain to apply for the chosen normalization. Peak uses the peak of the audio actually being
+// rendered; LUFS uses the analysis, since trimming silence doesn't change gated loudness.
+export function normalizationGain(settings: PrepSettings, loudness: LoudnessResult, peakDb: number): NormalizationGain {
+  if (settings.normalize === "peak" && peakDb > SILENT_PEAK) {
+    return { db: settings.peakTarget - peakDb, limited: false };
+  }
+  if (settings.normalize === "lufs" && loudness.truePeak > SILENT_PEAK) {
+    const wanted = settings.lufsTarget - loudness.integrated;
+    const ceiling = TRUE_PEAK_CEILING - loudness.truePeak;
+    return { db: Math.min(wanted, ceiling), limited: ceiling < wanted };
+  }
+  return { db: 0, limited: false };
+}
+
+// "loop_120bpm_Am.wav" for loops, "kick_A1.wav" for pitched one-shots: tempo means nothing
+// on a single hit, and its root note says more than a key
+export function preparedFileName(fileName: string, result: AnalysisResult, bpm: number): string {
+  const base = fileName.replace(/\.[^.]+$/, "");
+  const parts = [base];
+  if (result.sampleType === "loop") parts.push(`${formatBPM(bpm)}bpm`);
+
+  const top = result.keyCandidates[0];
+  if (result.rootNote) {
+    parts.push(`${result.rootNote.note}${result.rootNote.octave}`);
+  } else if (result.sampleType === "loop" && top) {
+    parts.push(`${top.key}${top.mode === "minor" ? "m" : ""}`);
+  }
+  return `${parts.join("_")}.wav`;
+}
+
+export async function prepareSample(file: File, loudness: LoudnessResult, settings: PrepSettings): Promise<ArrayBuffer> {
+  const { sampleRate } = settings;
+  // Decoding through a context at the output rate resamples in the same step
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await file.arrayBuffer());
+  const channels = Array.from({ length: decoded.numberOfChannels }, (_, c) => decoded.getChannelData(c));
+
+  const { start, end } = settings.trimSilence
+    ? findSoundBounds(channels, settings.trimThreshold)
+    : { start: 0, end: decoded.length };
+  if (end <= start) {
+    throw new Error("Nothing left to export after trimming");
+  }
+
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = start; i < end; i++) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  }
+  const level = 10 ** (normalizationGain(settings, loudness, toDB(peak)).db / 20);
+
+  const duration = (end - start) / sampleRate;
+  const fadeIn = Math.min(settings.fadeIn, duration / 2);
+  const fadeOut = Math.min(settings.fadeOut, duration / 2);
+
+  const ctx = new OfflineAudioContext(decoded.numberOfChannels, end - start, sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = decoded;
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : level, 0);
+  if (fadeIn > 0) gain.gain.linearRampToValueAtTime(level, fadeIn);
+  if (fadeOut > 0) {
+    gain.gain.setValueAtTime(level, duration - fadeOut);
+    gain.gain.linearRampToValueAtTime(0, duration);
+  }
+  source.connect(gain).connect(ctx.destination);
+  source.start(0, start / sampleRate, duration);
+
+  const rendered = await ctx.startRendering();
+  return encodeWAV(audioBufferToPCM(rendered), settings.bitDepth);
+}
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createSTFT } from "./stft";
+
+// The textbook DFT of the Hann-windowed frame, O(n²), for the bins the STFT returns
+function naiveSpectrum(data: Float32Array, start: number, fftSize: number): number[] {
+  const magnitudes: number[] = [];
+  for (let k = 0; k < fftSize / 2; k++) {
+    let real = 0;
+    let imag = 0;
+    for (let n = 0; n < fftSize; n++) {
+      const sample = start + n < data.length ? data[start + n] : 0;
+      const windowed = sample * 0.5 * (1 - Math.cos((2 * Math.PI * n) / (fftSize - 1)));
+      real += windowed * Math.cos((2 * Math.PI * k * n) / fftSize);
+      imag -= windowed * Math.sin((2 * Math.PI * k * n) / fftSize);
+    }
+    magnitudes.push(Math.hypot(real, imag));
+  }
+  return magnitudes;
+}
+
+function assertSpectraClose(actual: Float32Array, expected: number[], label: string) {
+  assert.equal(actual.length, expected.length, label);
+  const scale = Math.max(1, ...expected);
+  expected.forEach((value, k) => {
+    assert.ok(Math.abs(actual[k] - value) <= 1e-5 * scale, `${label}, bin ${k}: ${actual[k]} vs ${value}`);
+  });
+}
+
+describe("createSTFT", () => {
+  const signals: [string, (n: number) => number][] = [
+    ["DC", () => 0.5],
+    ["Nyquist", (n) => (n % 2 === 0 ? 0.8 : -0.8)],
+    ["two tones", (n) => Math.sin(0.3 * n) + 0.25 * Math.cos(2.9 * n + 1)],
+    ["noise", () => Math.random() * 2 - 1],
+  ];
+
+  for (const fftSize of [4, 16, 256, 2048]) {
+    it(`matches a naive DFT at ${fftSize} points, DC and top bins included`, () => {
+      const stft = createSTFT(fftSize);
+      assert.equal(stft.binCount, fftSize / 2);
+      for (const [name, signal] of signals) {
+        const data = Float32Array.from({ length: fftSize * 3 }, (_, n) => signal(n));
+        assertSpectraClose(stft.spectrum(data), naiveSpectrum(data, 0, fftSize), `${name} at 0`);
+        assertSpectraClose(stft.spectrum(data, fftSize + 3), naiveSpectrum(data, fftSize + 3, fftSize), `${name} at ${fftSize + 3}`);
+      }
+    });
+  }
+
+  it("reads samples past the end of the data as silence", () => {
+    const stft = createSTFT(64);
+    const data = Float32Array.from({ length: 100 }, (_, n) => Math.sin(0.7 * n));
+    assertSpectraClose(stft.spectrum(data, 70), naiveSpectrum(data, 70, 64), "last 30 samples");
+    assert.ok(stft.spectrum(data, 100).every((value) => value === 0));
+  });
+
+  it("puts a tone's energy in its bin", () => {
+    const fftSize = 1024;
+    const stft = createSTFT(fftSize);
+    const data = Float32Array.from({ length: fftSize }, (_, n) => Math.sin((2 * Math.PI * 100 * n) / fftSize));
+    const magnitude = stft.spectrum(data);
+    assert.equal(magnitude.indexOf(Math.max(...magnitude)), 100);
+  });
+
+  it("rejects sizes that aren't a power of two", () => {
+    assert.throws(() => createSTFT(1000), /power of two/);
+    assert.throws(() => createSTFT(2), /power of two/);
+  });
+});
@@ -0,0 +1,182 @@
+// Short-time Fourier transform shared by the detectors. Everything that depends only on the
+// FFT size (window, twiddle factors, bit-reversal order) is computed once per size and
+// cached; each STFT then reuses its own buffers, so framing a long file allocates nothing.
+// Tempo and key need different resolutions, so they share the engine rather than the frames.
+
+interface FFTPlan {
+  window: Float64Array; // Hann, fftSize points
+  // Complex FFT of half the size, over the real input packed as pairs
+  bitReversed: Uint32Array;
+  cos: Float64Array; // cos(2πj/half), j < half/2
+  sin: Float64Array;
+  // Split step that turns the half-size result into the real input's spectrum
+  splitCos: Float64Array; // cos(2πk/fftSize), k < half
+  splitSin: Float64Array;
+}
+
+export interface STFT {
+  fftSize: number;
+  binCount: number; // fftSize / 2
+  // Magnitude spectrum of the Hann-windowed frame starting at `start`; samples past the end
+  // of the data read as silence. The returned array is overwritten by the next call.
+  spectrum(data: Float32Array, start?: number): Float32Array;
+}
+
+const plans = new Map<number, FFTPlan>();
+
+function getPlan(fftSize: number): FFTPlan {
+  let plan = plans.get(fftSize);
+  if (plan) return plan;
+  if (fftSize < 4 || (fftSize & (fftSize - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, at least 4 (got ${fftSize})`);
+  }
+
+  const half = fftSize / 2;
+  const window = new Float64Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (fftSize - 1)));
+  }
+
+  const bits = Math.log2(half);
+  const bitReversed = new Uint32Array(half);
+  for (let i = 0; i < half; i++) {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) reversed |= ((i >> b) & 1) << (bits - 1 - b);
+    bitReversed[i] = reversed;
+  }
+
+  const cos = new Float64Array(half / 2);
+  const sin = new Float64Array(half / 2);
+  for (let j = 0; j < half / 2; j++) {
+    cos[j] = Math.cos((2 * Math.PI * j) / half);
+    sin[j] = Math.sin((2 * Math.PI * j) / half);
+  }
+
+  const splitCos = new Float64Array(half);
+  const splitSin = new Float64Array(half);
+  for (let k = 0; k < half; k++) {
+    splitCos[k] = Math.cos((2 * Math.PI * k) / fftSize);
+    splitSin[k] = Math.sin((2 * Math.PI * k) / fftSize);
+  }
+
+  plan = { window, bitReversed, cos, sin, splitCos, splitSin };
+  plans.set(fftSize, plan);
+  return plan;
+}
+
+// In-place radix-2 FFT, input already in bit-reversed order. Each twiddle factor is read once
+// per stage and applied to all of its butterflies.
+function fftInPlace(real: Float64Array, imag: Float64Array, plan: FFTPlan): void {
+  const n = real.length;
+  const { cos, sin } = plan;
+  for (let len = 2; len <= n; len <<= 1) {
+    const halfLen = len >> 1;
+    const step = n / len;
+    for (let j = 0; j < halfLen; j++) {
+      const wReal = cos[j * step];
+      const wImag = -sin[j * step];
+      for (let a = j; a < n; a += len) {
+        const b = a + halfLen;
+        const tReal = wReal * real[b] - wImag * imag[b];
+        const tImag = wReal * imag[b] + wImag * real[b];
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+      }
+    }
+  }
+}
+
+// Top level, with everything passed in rather than closed over: V8 optimizes a closure for the
+// first STFT's context only, and every detector has its own STFT
+function magnitudeSpectrum(
+  data: Float32Array,
+  start: number,
+  plan: FFTPlan,
+  real: Float64Array,
+  imag: Float64Array,
+  magnitude: Float32Array
+): Float32Array {
+  const { window, bitReversed, splitCos, splitSin } = plan;
+  const fftSize = window.length;
+  const half = fftSize >> 1;
+  // Even samples go to the real part, odd ones to the imaginary part
+  const available = Math.max(0, Math.min(fftSize, data.length - start));
+  for (let i = 0; i < half; i++) {
+    const e = 2 * i;
+    const o = e + 1;
+    const target = bitReversed[i];
+    real[target] = e < available ? data[start + e] * window[e] : 0;
+    imag[target] = o < available ? data[start + o] * window[o] : 0;
+  }
+  fftInPlace(real, imag, plan);
+
+  // X[k] = E[k] + e^(-2πik/N)·O[k], where E and O are the spectra of the even and odd
+  // samples, recovered from the packed transform Z as (Z[k] ± conj(Z[half-k])) / 2
+  for (let k = 0; k < half; k++) {
+    const m = (half - k) % half;
+    const evenReal = (real[k] + real[m]) / 2;
+    const evenImag = (imag[k] - imag[m]) / 2;
+    const oddReal = (imag[k] + imag[m]) / 2;
+    const oddImag = (real[m] - real[k]) / 2;
+    const wReal = splitCos[k];
+    const wImag = -splitSin[k];
+    const xReal = evenReal + wReal * oddReal - wImag * oddImag;
+    const xImag = evenImag + wReal * oddImag + wImag * oddReal;
+    magnitude[k] = Math.sqrt(xReal * xReal + xImag * xImag);
+  }
+  return magnitude;
+}
+
+export function createSTFT(fftSize: number): STFT {
+  const plan = getPlan(fftSize);
+  const half = fftSize / 2;
+  const real = new Float64Array(half);
+  const imag = new Float64Array(half);
+  const magnitude = new Float32Array(half);
+
+  return {
+    fftSize,
+    binCount: half,
+    spectrum: (data, start = 0) => magnitudeSpectrum(data, start, plan, real, imag, magnitude),
+  };
+}
+
+// Cuts a signal that arrives in blocks into overlapping frames, keeping only the samples
+// later frames still need. A frame is taken once the sample after it has arrived, so the
+// frames are the same however the signal is cut into blocks.
+export interface FrameStream {
+  // Calls onFrame for every frame the block completes: the frame is data[offset, offset +
+  // frameSize) and starts at sample `start` of the signal. `data` is only valid during the call.
+  push(block: Float32Array, onFrame: (data: Float32Array, offset: number, start: number) => void): void;
+}
+
+export function createFrameStream(frameSize: number, hopSize: number): FrameStream {
+  let buffer = new Float32Array(frameSize + hopSize);
+  let buffered = 0;
+  let bufferStart = 0; // Signal position of buffer[0]
+  let next = 0; // Start of the next frame
+
+  return {
+    push(block, onFrame) {
+      if (buffered + block.length > buffer.length) {
+        const grown = new Float32Array(buffered + block.length);
+        grown.set(buffer.subarray(0, buffered));
+        buffer = grown;
+      }
+      buffer.set(block, buffered);
+      buffered += block.length;
+      const received = bufferStart + buffered;
+
+      for (; next + frameSize < received; next += hopSize) {
+        onFrame(buffer, next - bufferStart, next);
+      }
+
+      const keepFrom = Math.min(next, received);
+      buffer.copyWithin(0, keepFrom - bufferStart, buffered);
+      buffered = received - keepFrom;
+      bufferStart = keepFrom;
+    },
+  };
+}
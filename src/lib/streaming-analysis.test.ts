@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzePCM, AnalyzePCMOptions, PCMInput } from "./audio-analyzer";
+import { createStreamingAnalysis } from "./streaming-analysis";
+import { chordPad, clickTrain, SYNTHETIC_SAMPLE_RATE } from "./synthetic-signals";
+
+// Drums on the left, a pad on the right, so every channel strategy hears something different
+function stereoMix(): PCMInput {
+  const drums = clickTrain(120, 20).channels[0];
+  const pad = chordPad("A", "minor", 20).channels[0];
+  const length = Math.min(drums.length, pad.length);
+  return { channels: [drums.subarray(0, length), pad.subarray(0, length)], sampleRate: SYNTHETIC_SAMPLE_RATE };
+}
+
+function stream(input: PCMInput, blockLength: number, options: AnalyzePCMOptions) {
+  const { channels, sampleRate } = input;
+  const analysis = createStreamingAnalysis(
+    { sampleRate, channelCount: channels.length, frameCount: channels[0].length },
+    options
+  );
+  for (let start = 0; start < channels[0].length; start += blockLength) {
+    analysis.push(channels.map((channel) => channel.slice(start, start + blockLength)));
+  }
+  return analysis.finish();
+}
+
+describe("streaming analysis", () => {
+  const input = stereoMix();
+
+  for (const options of [
+    { channelStrategy: "mono" },
+    { channelStrategy: "side", perChannel: true },
+    { channelStrategy: "right", maxDuration: 12 },
+  ] as AnalyzePCMOptions[]) {
+    it(`matches the analysis of the whole signal, ${JSON.stringify(options)}`, () => {
+      const whole = analyzePCM(input, options);
+      // Odd block sizes, so frames and level blocks straddle every boundary
+      for (const blockLength of [4099, 65537]) {
+        assert.deepEqual(stream(input, blockLength, options), whole, `${blockLength}-frame blocks`);
+      }
+    });
+  }
+});
@@ -0,0 +1,104 @@
+import {
+  AnalysisResult,
+  AnalyzePCMOptions,
+  cappedLength,
+  completeAnalysis,
+  createFeatureTracker,
+  DEFAULT_ANALYSIS_SETTINGS,
+  estimateTempoAndKey,
+  TempoKeyEstimate,
+} from "./audio-analyzer";
+import { createStageReporter } from "./progress";
+
+// Analysis of PCM that arrives in blocks, so a long file is never decoded whole. Each block
+// goes into the running features (see createFeatureTracker) and is dropped; anything past the
+// maxDuration cap is ignored. Running tempo and key estimates are published along the way.
+// The result is the same as analyzePCM on the capped input, however the blocks are cut.
+
+// Partials re-run the detectors on everything so far, so they come every 5% of the length
+// but no closer than 10 s of audio apart
+const PARTIAL_SHARE = 0.05;
+const PARTIAL_MIN_SECONDS = 10;
+
+export interface PCMFormat {
+  sampleRate: number;
+  channelCount: number;
+  frameCount: number; // Of the whole source, before any maxDuration cap
+}
+
+// Tempo and key from the audio heard so far; they settle as more of it comes in
+export interface PartialAnalysis extends TempoKeyEstimate {
+  analyzed: number; // Seconds
+  total: number; // Seconds that will be analyzed, after the cap
+}
+
+export interface StreamingAnalysisOptions extends AnalyzePCMOptions {
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+export interface StreamingAnalysis {
+  length: number; // Frames that will be analyzed; anything pushed past it is dropped
+  // Takes the next frames, one array per channel. The arrays aren't kept.
+  push(channels: Float32Array[]): void;
+  finish(): AnalysisResult; // Analyzes whatever was pushed, even if it's short of length
+}
+
+export function createStreamingAnalysis(
+  { sampleRate, channelCount, frameCount }: PCMFormat,
+  options: StreamingAnalysisOptions = {}
+): StreamingAnalysis {
+  const {
+    onProgress,
+    onPartial,
+    keyProfile = DEFAULT_ANALYSIS_SETTINGS.keyProfile,
+    prior = DEFAULT_ANALYSIS_SETTINGS.prior,
+    maxDuration = DEFAULT_ANALYSIS_SETTINGS.maxDuration,
+  } = options;
+  if (channelCount < 1) {
+    throw new Error("PCM input has no channels");
+  }
+  if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+    throw new Error(`Invalid sample rate: ${sampleRate}`);
+  }
+
+  const length = cappedLength(frameCount, sampleRate, maxDuration);
+  // The stream reports its own progress; the trackers' per-stage progress would interleave
+  const features = createFeatureTracker(sampleRate, channelCount, length, { ...options, onProgress: undefined });
+  const report = createStageReporter("stream", length, onProgress);
+  const partialInterval = Math.max(length * PARTIAL_SHARE, PARTIAL_MIN_SECONDS * sampleRate);
+  let filled = 0;
+  let lastPartial = 0;
+
+  const estimate = (): PartialAnalysis => ({
+    ...estimateTempoAndKey(features.envelope(), features.chroma(), keyProfile, prior),
+    analyzed: filled / sampleRate,
+    total: length / sampleRate,
+  });
+
+  return {
+    length,
+
+    push(block) {
+      if (block.length !== channelCount) {
+        throw new Error(`Expected ${channelCount} channels, got ${block.length}`);
+      }
+      if (block.some((channel) => channel.length !== block[0].length)) {
+        throw new Error("PCM channels must all have the same length");
+      }
+      const take = Math.min(block[0].length, length - filled);
+      if (take <= 0) return;
+
+      features.push(block.map((channel) => channel.subarray(0, take)));
+      filled += take;
+      report(filled);
+      if (onPartial && filled < length && filled - lastPartial >= partialInterval) {
+        lastPartial = filled;
+        onPartial(estimate());
+      }
+    },
+
+    finish() {
+      return completeAnalysis(features.features(frameCount / sampleRate), options);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { tempoAccuracy1, tempoAccuracy2 } from "./accuracy";
+import { analyzePCM } from "./audio-analyzer";
+import { chordPad, clickTrain, swungDrums } from "./synthetic-signals";
+
+// End-to-end checks on signals whose answers are known; the benchmark scores the full set
+
+describe("tempo of synthetic signals", () => {
+  it("finds the tempo of a click train", () => {
+    const { bpm } = analyzePCM(clickTrain(120, 12));
+    assert.ok(tempoAccuracy1(bpm, 120), `${bpm} BPM`);
+  });
+
+  it("finds swung drums at the tempo or an octave of it", () => {
+    const { bpm } = analyzePCM(swungDrums(95, 2 / 3, 12));
+    assert.ok(tempoAccuracy2(bpm, 95), `${bpm} BPM`);
+  });
+});
+
+describe("key of synthetic signals", () => {
+  for (const [key, mode] of [["C", "major"], ["A", "minor"], ["F#", "major"]] as const) {
+    it(`finds ${key} ${mode} from a cadence`, () => {
+      const [top] = analyzePCM(chordPad(key, mode, 8)).keyCandidates;
+      assert.deepEqual({ key: top.key, mode: top.mode }, { key, mode });
+    });
+  }
+
+  it("finds the key of a pad tuned 35 cents sharp, and measures the tuning", () => {
+    const result = analyzePCM(chordPad("D#", "minor", 8, 35));
+    const [top] = result.keyCandidates;
+    assert.deepEqual({ key: top.key, mode: top.mode }, { key: "D#", mode: "minor" });
+    assert.ok(Math.abs(result.tuningCents - 35) <= 5, `${result.tuningCents} cents`);
+  });
+});
+
+describe("maxDuration", () => {
+  it("suggests no loop points for a loop cut short", () => {
+    const input = clickTrain(120, 12);
+    assert.notEqual(analyzePCM(input).loop, null);
+    const capped = analyzePCM(input, { maxDuration: 7 });
+    assert.equal(capped.duration, 7);
+    assert.equal(capped.loop, null);
+  });
+});
+
+describe("meter of synthetic signals", () => {
+  it("lists each time signature once, 6/8 included", () => {
+    for (const input of [clickTrain(120, 12), swungDrums(95, 2 / 3, 12)]) {
+      const signatures = analyzePCM(input).meterCandidates.map((meter) => meter.timeSignature);
+      assert.deepEqual([...signatures].sort(), ["3/4", "4/4", "6/8", "7/8"]);
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import type { BenchmarkReference } from "./accuracy";
+import type { PCMInput } from "./audio-analyzer";
+import { KEY_NAMES, KeyMode } from "./key-detection";
+
+// Test signals whose tempo and key are known by construction, for the benchmark. Noise comes
+// from a seeded generator, so every run renders the same audio.
+
+export const SYNTHETIC_SAMPLE_RATE = 44100;
+
+export interface SyntheticCase {
+  name: string;
+  group: string;
+  reference: BenchmarkReference;
+  render: () => PCMInput; // Rendered on demand, so only one case is held in memory at a time
+}
+
+// mulberry32
+function seededNoise(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) / 4294967296) * 2 - 1;
+  };
+}
+
+function midiFrequency(midi: number, detuneCents = 0): number {
+  return 440 * Math.pow(2, (midi - 69) / 12 + detuneCents / 1200);
+}
+
+type Voice = (t: number) => number; // Sample at t seconds after the hit
+
+// Adds a decaying hit at the given time; hits are cut after `length` seconds
+function addHit(out: Float32Array, sampleRate: number, time: number, length: number, voice: Voice, gain: number): void {
+  const start = Math.round(time * sampleRate);
+  const end = Math.min(out.length, start + Math.round(length * sampleRate));
+  for (let i = Math.max(0, start); i < end; i++) {
+    out[i] += voice((i - start) / sampleRate) * gain;
+  }
+}
+
+const click: Voice = (t) => Math.sin(2 * Math.PI * 1500 * t) * Math.exp(-t * 120);
+const kick: Voice = (t) => Math.sin(2 * Math.PI * (55 + 90 * Math.exp(-t * 30)) * t) * Math.exp(-t * 18);
+
+function snare(noise: () => number): Voice {
+  return (t) => noise() * 0.7 * Math.exp(-t * 25) + Math.sin(2 * Math.PI * 190 * t) * 0.3 * Math.exp(-t * 30);
+}
+
+function hat(noise: () => number): Voice {
+  return (t) => noise() * Math.exp(-t * 90);
+}
+
+// A click on every beat, the downbeat of each 4/4 bar louder
+export function clickTrain(bpm: number, seconds: number, sampleRate = SYNTHETIC_SAMPLE_RATE): PCMInput {
+  const out = new Float32Array(Math.round(seconds * sampleRate));
+  const beat = 60 / bpm;
+  for (let i = 0; i * beat < seconds; i++) {
+    addHit(out, sampleRate, i * beat, 0.05, click, i % 4 === 0 ? 0.8 : 0.5);
+  }
+  return { channels: [out], sampleRate };
+}
+
+// Kick on 1 and 3, snare on 2 and 4, and hats on swung eighths: the off-beat eighth lands at
+// `swing` of the beat (0.5 is straight, 2/3 a triplet shuffle)
+export function swungDrums(bpm: number, swing: number, seconds: number, sampleRate = SYNTHETIC_SAMPLE_RATE): PCMInput {
+  const out = new Float32Array(Math.round(seconds * sampleRate));
+  const noise = seededNoise(bpm * 1000 + Math.round(swing * 100));
+  const beat = 60 / bpm;
+  for (let i = 0; i * beat < seconds; i++) {
+    const time = i * beat;
+    addHit(out, sampleRate, time, 0.3, i % 2 === 0 ? kick : snare(noise), i % 2 === 0 ? 0.9 : 0.6);
+    addHit(out, sampleRate, time, 0.05, hat(noise), 0.25);
+    addHit(out, sampleRate, time + swing * beat, 0.05, hat(noise), 0.15);
+  }
+  return { channels: [out], sampleRate };
+}
+
+const TRIADS: Record<KeyMode, number[]> = { major: [0, 4, 7], minor: [0, 3, 7] };
+// I-IV-V-I, and i-iv-V-i with the raised leading tone of harmonic minor
+const PROGRESSIONS: Record<KeyMode, [number, KeyMode][]> = {
+  major: [[0, "major"], [5, "major"], [7, "major"], [0, "major"]],
+  minor: [[0, "minor"], [5, "minor"], [7, "major"], [0, "minor"]],
+};
+const PAD_HARMONICS = 3;
+const PAD_FADE = 0.05; // seconds, at each chord change
+
+// A cadence in the key, as sustained chords over a bass note, optionally tuned away from A=440
+export function chordPad(
+  key: string,
+  mode: KeyMode,
+  seconds: number,
+  detuneCents = 0,
+  sampleRate = SYNTHETIC_SAMPLE_RATE
+): PCMInput {
+  const out = new Float32Array(Math.round(seconds * sampleRate));
+  const tonic = 48 + KEY_NAMES.indexOf(key); // C3..B3
+  const progression = PROGRESSIONS[mode];
+  const chordLength = Math.floor(out.length / progression.length);
+
+  progression.forEach(([degree, quality], c) => {
+    const root = tonic + degree;
+    const notes = [root - 12, ...TRIADS[quality].map((interval) => root + interval)];
+    const frequencies = notes.map((note) => midiFrequency(note, detuneCents));
+    const fade = PAD_FADE * sampleRate;
+    for (let i = 0; i < chordLength; i++) {
+      const t = i / sampleRate;
+      const envelope = Math.min(1, i / fade, (chordLength - i) / fade);
+      let sample = 0;
+      for (const f of frequencies) {
+        for (let h = 1; h <= PAD_HARMONICS; h++) sample += Math.sin(2 * Math.PI * f * h * t) / h;
+      }
+      out[c * chordLength + i] = (sample * envelope * 0.5) / frequencies.length;
+    }
+  });
+  return { channels: [out], sampleRate };
+}
+
+const CLICK_TEMPOS = [60, 75, 90, 100, 110, 120, 128, 140, 160, 174];
+const SWING_TEMPOS = [85, 95, 105, 120];
+const SWING_RATIOS = [0.6, 2 / 3];
+// Keys spread around the circle of fifths, each with a different tuning offset
+const DETUNED: [string, KeyMode, number][] = [
+  ["C", "major", 20],
+  ["A", "minor", -20],
+  ["F#", "major", 35],
+  ["D#", "minor", -35],
+  ["G", "major", 45],
+  ["B", "minor", -45],
+];
+
+export function syntheticCases(): SyntheticCase[] {
+  const cases: SyntheticCase[] = [];
+  for (const bpm of CLICK_TEMPOS) {
+    cases.push({ name: `clicks ${bpm}`, group: "clicks", reference: { bpm }, render: () => clickTrain(bpm, 12) });
+  }
+  for (const bpm of SWING_TEMPOS) {
+    for (const swing of SWING_RATIOS) {
+      cases.push({
+        name: `swing ${bpm} at ${Math.round(swing * 100)}%`,
+        group: "swing",
+        reference: { bpm },
+        render: () => swungDrums(bpm, swing, 12),
+      });
+    }
+  }
+  for (const mode of ["major", "minor"] as KeyMode[]) {
+    for (const key of KEY_NAMES) {
+      cases.push({ name: `pad ${key} ${mode}`, group: "pads", reference: { key: { key, mode } }, render: () => chordPad(key, mode, 8) });
+    }
+  }
+  for (const [key, mode, cents] of DETUNED) {
+    cases.push({
+      name: `pad ${key} ${mode} ${cents > 0 ? "+" : ""}${cents}¢`,
+      group: "detuned",
+      reference: { key: { key, mode } },
+      render: () => chordPad(key, mode, 8, cents),
+    });
+  }
+  return cases;
+}
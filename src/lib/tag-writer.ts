@@ -0,0 +1,225 @@
+import type { AnalysisResult } from "./audio-analyzer";
+import { id3TagLength, readID3Frames, syncsafe } from "./id3";
+import { KEY_NAMES, KeyMode } from "./key-detection";
+import type { TimeSignature } from "./meter-detection";
+import { Chunk, readChunks, readId, sniffPCMFormat, toDataView } from "./pcm-decoder";
+import { formatBPM } from "./tempo-detection";
+
+// Writes tempo and key into a copy of an audio file without touching the audio: ID3v2
+// TBPM/TKEY for MP3, RIFF INFO and an acid chunk for WAV, and an ID3 chunk for AIFF, which
+// has no tempo or key chunk of its own. Every other chunk and frame is copied byte for byte.
+
+export type TaggableFormat = "mp3" | "wav" | "aiff";
+
+export interface TagValues {
+  bpm: number;
+  key: string; // Pitch class, as in KEY_NAMES
+  mode: KeyMode | null; // null for a bare note, such as a one-shot's root
+  rootNote: number; // MIDI note
+  oneShot: boolean;
+  beats: number; // Length in beats; 0 for one-shots
+  meter: [number, number]; // Time signature numerator and denominator
+}
+
+// New tags are written as ID3v2.4; existing v2.3 tags keep their version
+const ID3_DEFAULT_VERSION = 4;
+const ID3_REPLACED_FRAMES = new Set(["TBPM", "TKEY"]);
+
+// The INFO spec has no tempo or key field; these are the ones tag editors use
+export const INFO_BPM = "IBPM";
+export const INFO_KEY = "IKEY";
+
+// acid chunk flags
+export const ACID_ONE_SHOT = 0x01;
+export const ACID_ROOT_NOTE = 0x02;
+const ACID_STRETCH = 0x04;
+const ACID_SIZE = 24;
+
+// Middle octave for a key's root, MIDI 60-71
+const ROOT_OCTAVE_BASE = 60;
+
+export function tagValuesFor(
+  result: AnalysisResult,
+  bpm: number,
+  key: { key: string; mode: KeyMode },
+  timeSignature: TimeSignature
+): TagValues {
+  const [numerator, denominator] = timeSignature.split("/").map(Number);
+  const oneShot = result.sampleType === "one-shot";
+  // A pitched one-shot is tagged with its own note rather than a key
+  const root = result.rootNote;
+  return {
+    bpm,
+    key: root ? root.note : key.key,
+    mode: root ? null : key.mode,
+    rootNote: root ? root.midi : ROOT_OCTAVE_BASE + KEY_NAMES.indexOf(key.key),
+    oneShot,
+    beats: oneShot ? 0 : Math.round((result.duration * bpm) / 60),
+    meter: [numerator, denominator],
+  };
+}
+
+// ID3 TKEY notation: "A", "F#m"
+export function formatTagKey(values: TagValues): string {
+  return `${values.key}${values.mode === "minor" ? "m" : ""}`;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// ISO-8859-1; everything written here is ASCII
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function uint32(value: number, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+  return bytes;
+}
+
+function id3TextFrame(id: string, text: string, version: number): Uint8Array {
+  // Leading 0: ISO-8859-1 encoding
+  const body = concat([Uint8Array.of(0), latin1(text)]);
+  const size = version === 4 ? syncsafe(body.length) : uint32(body.length, false);
+  return concat([latin1(id), size, Uint8Array.of(0, 0), body]);
+}
+
+// Frames of an existing tag, minus the ones being replaced, copied as they are
+function keptID3Frames(tag: Uint8Array): { version: number; frames: Uint8Array[] } {
+  const { version, frames } = readID3Frames(tag);
+  if (version !== 3 && version !== 4) {
+    throw new Error(`ID3v2.${version} tags can't be updated; only v2.3 and v2.4`);
+  }
+  return { version, frames: frames.filter((frame) => !ID3_REPLACED_FRAMES.has(frame.id)).map((frame) => frame.raw) };
+}
+
+// A complete ID3v2 tag: the existing one's frames, if any, plus TBPM and TKEY. The extended
+// header, padding and footer are dropped.
+function buildID3Tag(existing: Uint8Array | null, values: TagValues): Uint8Array {
+  const { version, frames } = existing ? keptID3Frames(existing) : { version: ID3_DEFAULT_VERSION, frames: [] };
+  const body = concat([
+    ...frames,
+    // TBPM is an integer by definition
+    id3TextFrame("TBPM", String(Math.round(values.bpm)), version),
+    id3TextFrame("TKEY", formatTagKey(values), version),
+  ]);
+  return concat([latin1("ID3"), Uint8Array.of(version, 0, 0), syncsafe(body.length), body]);
+}
+
+function tagMP3(bytes: Uint8Array, values: TagValues): Uint8Array {
+  const length = id3TagLength(bytes);
+  return concat([buildID3Tag(length > 0 ? bytes.subarray(0, length) : null, values), bytes.subarray(length)]);
+}
+
+// Chunks are padded to an even length
+function chunk(id: string, body: Uint8Array, littleEndian: boolean): Uint8Array {
+  return concat([latin1(id), uint32(body.length, littleEndian), body, new Uint8Array(body.length % 2)]);
+}
+
+function chunkBody(bytes: Uint8Array, { offset, size }: Chunk): Uint8Array {
+  return bytes.subarray(offset, offset + size);
+}
+
+// INFO strings are null-terminated
+function infoList(existing: Uint8Array | null, values: TagValues): Uint8Array {
+  const kept = existing
+    ? readChunks(toDataView(existing), 4, true)
+        .filter((field) => field.id !== INFO_BPM && field.id !== INFO_KEY)
+        .map((field) => chunk(field.id, chunkBody(existing, field), true))
+    : [];
+  return chunk(
+    "LIST",
+    concat([
+      latin1("INFO"),
+      ...kept,
+      chunk(INFO_BPM, latin1(`${formatBPM(values.bpm)}\0`), true),
+      chunk(INFO_KEY, latin1(`${formatTagKey(values)}\0`), true),
+    ]),
+    true
+  );
+}
+
+function acidChunk(values: TagValues): Uint8Array {
+  const body = new Uint8Array(ACID_SIZE);
+  const view = new DataView(body.buffer);
+  view.setUint32(0, ACID_ROOT_NOTE | (values.oneShot ? ACID_ONE_SHOT : ACID_STRETCH), true);
+  view.setUint16(4, values.rootNote, true);
+  view.setUint16(6, 0x8000, true); // Unknown; ACID itself always writes this
+  view.setFloat32(8, 0, true); // Unknown
+  view.setUint32(12, values.beats, true);
+  view.setUint16(16, values.meter[1], true);
+  view.setUint16(18, values.meter[0], true);
+  view.setFloat32(20, values.bpm, true);
+  return chunk("acid", body, true);
+}
+
+function tagWAV(bytes: Uint8Array, values: TagValues): Uint8Array {
+  const view = toDataView(bytes);
+  const chunks = readChunks(view, 12, true);
+  const info = chunks.find((c) => c.id === "LIST" && c.size >= 4 && readId(view, c.offset) === "INFO");
+  if (!chunks.some((c) => c.id === "data")) throw new Error("WAV file has no data chunk");
+
+  const parts: Uint8Array[] = [];
+  for (const c of chunks) {
+    if (c.id === "acid" || c === info) continue;
+    // Tags go ahead of the audio, where readers that stop at "data" still find them
+    if (c.id === "data") parts.push(infoList(info ? chunkBody(bytes, info) : null, values), acidChunk(values));
+    parts.push(chunk(c.id, chunkBody(bytes, c), true));
+  }
+  const body = concat([latin1("WAVE"), ...parts]);
+  return concat([latin1("RIFF"), uint32(body.length, true), body]);
+}
+
+function tagAIFF(bytes: Uint8Array, values: TagValues): Uint8Array {
+  const view = toDataView(bytes);
+  const chunks = readChunks(view, 12, false);
+  const id3 = chunks.find((c) => c.id === "ID3 " || c.id === "id3 ");
+  if (!chunks.some((c) => c.id === "SSND")) throw new Error("AIFF file has no SSND chunk");
+
+  const parts: Uint8Array[] = [];
+  for (const c of chunks) {
+    if (c === id3) continue;
+    if (c.id === "SSND") parts.push(chunk("ID3 ", buildID3Tag(id3 ? chunkBody(bytes, id3) : null, values), false));
+    parts.push(chunk(c.id, chunkBody(bytes, c), false));
+  }
+  // "AIFF" or "AIFC", as it was
+  const body = concat([bytes.subarray(8, 12), ...parts]);
+  return concat([latin1("FORM"), uint32(body.length, false), body]);
+}
+
+export function sniffTaggableFormat(bytes: Uint8Array): TaggableFormat | null {
+  const pcm = sniffPCMFormat(bytes);
+  if (pcm) return pcm;
+  // An ID3 tag, or straight into an MPEG frame sync
+  if (id3TagLength(bytes) > 0 || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return "mp3";
+  return null;
+}
+
+// Returns a tagged copy; the input is left as it is
+export function writeTags(input: ArrayBuffer | Uint8Array, values: TagValues): ArrayBuffer {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  let tagged: Uint8Array;
+  switch (sniffTaggableFormat(bytes)) {
+    case "mp3":
+      tagged = tagMP3(bytes, values);
+      break;
+    case "wav":
+      tagged = tagWAV(bytes, values);
+      break;
+    case "aiff":
+      tagged = tagAIFF(bytes, values);
+      break;
+    default:
+      throw new Error("Tags can only be written to MP3, WAV and AIFF files");
+  }
+  // concat always allocates, so the copy owns its whole buffer
+  return tagged.buffer as ArrayBuffer;
+}
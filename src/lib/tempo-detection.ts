@@ -0,0 +1,316 @@
+import { createStageReporter, ProgressCallback } from "./progress";
+import { createFrameStream, createSTFT } from "./stft";
+
+export interface BPMResult {
+  bpm: number;
+  confidence: number;
+  alternatives: number[];
+}
+
+export interface TempoPoint {
+  time: number; // seconds
+  bpm: number;
+}
+
+export type TempoStability = "stable" | "drifting";
+
+export interface TempoDrift {
+  curve: TempoPoint[];
+  driftPercent: number; // Largest deviation of the local tempo from the global BPM
+  stability: TempoStability;
+}
+
+// Local tempo is averaged over this many beats, which evens out frame quantization
+const DRIFT_WINDOW_BEATS = 8;
+// Beyond this deviation a sample can't be warped to a fixed grid without artifacts
+const DRIFT_THRESHOLD_PERCENT = 2;
+
+const LOW_BAND_HZ = 150;
+
+function normalizeInPlace(values: number[]): void {
+  // A loop, since spreading a long file's flux overflows the stack
+  let max = 0;
+  for (const value of values) {
+    if (value > max) max = value;
+  }
+  if (max > 0) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] /= max;
+    }
+  }
+}
+
+// BPMs are reported to a tenth; finer than that is below what the analysis can resolve
+export function roundBPM(bpm: number): number {
+  return Math.round(bpm * 10) / 10;
+}
+
+// "128" for whole tempos, "127.5" otherwise
+export function formatBPM(bpm: number): string {
+  const rounded = roundBPM(bpm);
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(1);
+}
+
+// Spectral flux onset detection function, shared by tempo estimation and beat tracking
+export interface OnsetEnvelope {
+  values: number[]; // Normalized to 0..1
+  lowValues: number[]; // Same, below LOW_BAND_HZ only; kicks and bass notes, which mark downbeats
+  frameRate: number; // Values per second
+  timeOffset: number; // Time in seconds of values[0]
+}
+
+const ONSET_FFT_SIZE = 2048; // Larger FFT for better frequency resolution in onset detection
+const ONSET_HOP_SIZE = 512;
+
+// Where the envelope's values fall in time, known before any audio is
+export function onsetEnvelopeTiming(sampleRate: number): Pick<OnsetEnvelope, "frameRate" | "timeOffset"> {
+  return {
+    frameRate: sampleRate / ONSET_HOP_SIZE,
+    // Each flux value compares a frame with the next; onsets peak near the next frame's center
+    timeOffset: (ONSET_HOP_SIZE + ONSET_FFT_SIZE / 2) / sampleRate,
+  };
+}
+
+// Builds the envelope as samples arrive, so a long file is never held whole. Feeding a
+// signal in blocks gives the same envelope as feeding it at once.
+export interface OnsetTracker {
+  push(block: Float32Array): void; // The next samples; the block isn't kept
+  envelope(): OnsetEnvelope; // So far, normalized
+}
+
+// `total` is the length the data will reach, for progress
+export function createOnsetTracker(sampleRate: number, total: number, onProgress?: ProgressCallback): OnsetTracker {
+  const fftSize = ONSET_FFT_SIZE;
+  const hopSize = ONSET_HOP_SIZE;
+  const report = createStageReporter("onset", total - fftSize, onProgress);
+
+  // Spectral flux (onset detection function). The STFT reuses its output, so the previous
+  // frame is kept as a copy.
+  const stft = createSTFT(fftSize);
+  const frames = createFrameStream(fftSize, hopSize);
+  const prevMagnitude = new Float32Array(stft.binCount);
+  let hasPrevious = false;
+  let received = 0;
+  const spectralFlux: number[] = [];
+  const lowFlux: number[] = [];
+  const lowBins = Math.ceil((LOW_BAND_HZ * fftSize) / sampleRate);
+
+  return {
+    push(block) {
+      received += block.length;
+      frames.push(block, (data, offset, start) => {
+        report(start);
+        const magnitude = stft.spectrum(data, offset);
+
+        if (hasPrevious) {
+          let flux = 0;
+          let low = 0;
+          for (let i = 0; i < magnitude.length; i++) {
+            const diff = magnitude[i] - prevMagnitude[i];
+            if (diff > 0) { // Half-wave rectification
+              flux += diff;
+              if (i < lowBins) low += diff;
+            }
+          }
+          spectralFlux.push(flux);
+          lowFlux.push(low);
+        }
+
+        prevMagnitude.set(magnitude);
+        hasPrevious = true;
+      });
+      if (received >= total) report(total);
+    },
+
+    envelope() {
+      const values = spectralFlux.slice();
+      const lowValues = lowFlux.slice();
+      normalizeInPlace(values);
+      normalizeInPlace(lowValues);
+      return { values, lowValues, ...onsetEnvelopeTiming(sampleRate) };
+    },
+  };
+}
+
+export function computeOnsetEnvelope(data: Float32Array, sampleRate: number, onProgress?: ProgressCallback): OnsetEnvelope {
+  const tracker = createOnsetTracker(sampleRate, data.length, onProgress);
+  tracker.push(data);
+  return tracker.envelope();
+}
+
+export function detectBPM(envelope: OnsetEnvelope): BPMResult {
+  const spectralFlux = envelope.values;
+
+  if (spectralFlux.length < 100) {
+    return { bpm: 120, confidence: 0, alternatives: [] };
+  }
+
+  // Compute autocorrelation to find tempo
+  const framesPerSecond = envelope.frameRate;
+  const minBPM = 60;
+  const maxBPM = 180;
+  const minLag = Math.floor((60 / maxBPM) * framesPerSecond);
+  const maxLag = Math.floor((60 / minBPM) * framesPerSecond);
+
+  const correlations: number[] = [];
+  for (let lag = minLag; lag <= maxLag && lag < spectralFlux.length / 2; lag++) {
+    let sum = 0;
+    for (let i = 0; i < spectralFlux.length - lag; i++) {
+      sum += spectralFlux[i] * spectralFlux[i + lag];
+    }
+    correlations.push(sum / (spectralFlux.length - lag));
+  }
+
+  // Find peaks in autocorrelation
+  const peaks: { lag: number; value: number; bpm: number }[] = [];
+  for (let i = 1; i < correlations.length - 1; i++) {
+    if (correlations[i] > correlations[i - 1] && correlations[i] > correlations[i + 1]) {
+      // Parabolic interpolation around the peak for sub-lag, and so sub-BPM, precision
+      const y0 = correlations[i - 1];
+      const y1 = correlations[i];
+      const y2 = correlations[i + 1];
+      const curvature = y0 - 2 * y1 + y2;
+      const offset = curvature !== 0 ? (0.5 * (y0 - y2)) / curvature : 0;
+      const lag = minLag + i + offset;
+      const bpm = (60 * framesPerSecond) / lag;
+      peaks.push({ lag, value: y1, bpm: roundBPM(bpm) });
+    }
+  }
+
+  // Sort by correlation strength
+  peaks.sort((a, b) => b.value - a.value);
+
+  if (peaks.length === 0) {
+    return { bpm: 120, confidence: 0, alternatives: [] };
+  }
+
+  // Calculate confidence based on how much stronger the best peak is
+  const bestPeak = peaks[0];
+  const maxCorr = Math.max(...correlations);
+  const avgCorr = correlations.reduce((a, b) => a + b, 0) / correlations.length;
+  const confidence = Math.min(1, Math.max(0, (bestPeak.value - avgCorr) / (maxCorr - avgCorr + 0.001)));
+
+  // Get primary BPM
+  let bpm = bestPeak.bpm;
+
+  // Normalize to common range, prefer 80-140
+  if (bpm > 140) {
+    const halfBPM = roundBPM(bpm / 2);
+    if (halfBPM >= 60) bpm = halfBPM;
+  } else if (bpm < 80) {
+    const doubleBPM = bpm * 2;
+    if (doubleBPM <= 180) bpm = doubleBPM;
+  }
+
+  // Collect alternatives (half/double time, other strong peaks)
+  const alternatives = new Set<number>();
+
+  // Add half and double time
+  if (bpm * 2 <= 200) alternatives.add(bpm * 2);
+  if (bpm / 2 >= 50) alternatives.add(roundBPM(bpm / 2));
+
+  // Add other strong peaks that are meaningfully different
+  for (const peak of peaks.slice(1, 4)) {
+    let altBpm = peak.bpm;
+    if (altBpm > 140 && altBpm / 2 >= 60) altBpm = roundBPM(altBpm / 2);
+    else if (altBpm < 80 && altBpm * 2 <= 180) altBpm = altBpm * 2;
+
+    // Fractional peaks from neighbouring lags can land a hair apart; keep one of them
+    const isDuplicate = Array.from(alternatives).some((alt) => Math.abs(alt - altBpm) < 1);
+    if (Math.abs(altBpm - bpm) > 5 && !isDuplicate) {
+      alternatives.add(altBpm);
+    }
+  }
+
+  // Remove the primary BPM from alternatives
+  alternatives.delete(bpm);
+
+  return {
+    bpm,
+    confidence,
+    alternatives: Array.from(alternatives).slice(0, 3).sort((a, b) => a - b),
+  };
+}
+
+// How close a tagged tempo has to be to a candidate to count as the same tempo
+export const PRIOR_TOLERANCE = 0.02;
+
+// Prefers the tempo a file is tagged with when the detector proposed it as an alternative.
+// Candidates are only reordered, never added: a tag the audio doesn't support is ignored.
+export function applyTempoPrior(result: BPMResult, bpm?: number): BPMResult {
+  if (!bpm) return result;
+  const matches = (candidate: number) => Math.abs(candidate - bpm) / bpm <= PRIOR_TOLERANCE;
+  const preferred = result.alternatives.find(matches);
+  if (matches(result.bpm) || preferred === undefined) return result;
+
+  return {
+    ...result,
+    bpm: preferred,
+    alternatives: [...result.alternatives.filter((alt) => alt !== preferred), result.bpm].sort((a, b) => a - b),
+  };
+}
+
+// Least-squares fit of beat times against beat index; over a whole loop this is far more
+// precise than the autocorrelation lag. Only trusted when it agrees with the estimate.
+export function refineBPMFromBeats(result: BPMResult, beats: number[]): BPMResult {
+  const n = beats.length;
+  if (n < 4) return result;
+
+  const meanIndex = (n - 1) / 2;
+  const meanTime = beats.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (i - meanIndex) * (beats[i] - meanTime);
+    den += (i - meanIndex) ** 2;
+  }
+
+  const refined = roundBPM(60 / (num / den));
+  if (!Number.isFinite(refined) || Math.abs(refined - result.bpm) / result.bpm > 0.04) {
+    return result;
+  }
+
+  // Half/double-time alternatives follow the primary tempo
+  const alternatives = result.alternatives.map((alt) => {
+    if (alt === result.bpm * 2) return refined * 2;
+    if (alt === roundBPM(result.bpm / 2)) return roundBPM(refined / 2);
+    return alt;
+  });
+
+  return { ...result, bpm: refined, alternatives: alternatives.filter((alt) => alt !== refined) };
+}
+
+export function analyzeTempoDrift(beats: number[], bpm: number): TempoDrift {
+  const period = 60 / bpm;
+
+  // Inter-beat intervals, skipping ones where the tracker dropped or doubled a beat
+  const intervals: { time: number; interval: number }[] = [];
+  for (let i = 1; i < beats.length; i++) {
+    const interval = beats[i] - beats[i - 1];
+    if (Math.abs(interval - period) / period < 0.25) {
+      intervals.push({ time: (beats[i] + beats[i - 1]) / 2, interval });
+    }
+  }
+
+  const span = Math.min(DRIFT_WINDOW_BEATS, intervals.length);
+  if (span < 2) {
+    return { curve: [], driftPercent: 0, stability: "stable" };
+  }
+
+  const curve: TempoPoint[] = [];
+  let driftPercent = 0;
+  for (let i = 0; i + span <= intervals.length; i++) {
+    let sum = 0;
+    for (let j = i; j < i + span; j++) sum += intervals[j].interval;
+    const localBPM = roundBPM((60 * span) / sum);
+    const time = (intervals[i].time + intervals[i + span - 1].time) / 2;
+    curve.push({ time, bpm: localBPM });
+    driftPercent = Math.max(driftPercent, (Math.abs(localBPM - bpm) / bpm) * 100);
+  }
+
+  return {
+    curve,
+    driftPercent: Math.round(driftPercent * 10) / 10,
+    stability: driftPercent > DRIFT_THRESHOLD_PERCENT ? "drifting" : "stable",
+  };
+}
@@ -0,0 +1,68 @@
+import type { PCMInput } from "./audio-analyzer";
+
+// Minimal WAV writer, the counterpart of pcm-decoder: integer PCM at 16 or 24 bit, or
+// 32-bit IEEE float. Samples outside -1..1 are clipped for the integer formats.
+
+export type WAVBitDepth = 16 | 24 | 32;
+
+export const WAV_BIT_DEPTHS: WAVBitDepth[] = [16, 24, 32];
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const HEADER_SIZE = 44;
+
+function writeId(view: DataView, offset: number, id: string): void {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, id.charCodeAt(i));
+  }
+}
+
+export function encodeWAV({ channels, sampleRate }: PCMInput, bitDepth: WAVBitDepth = 16): ArrayBuffer {
+  const numChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const buffer = new ArrayBuffer(HEADER_SIZE + dataSize + (dataSize % 2));
+  const view = new DataView(buffer);
+
+  writeId(view, 0, "RIFF");
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeId(view, 8, "WAVE");
+
+  writeId(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, Math.round(sampleRate), true);
+  view.setUint32(28, Math.round(sampleRate) * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  writeId(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = channels[c][i];
+      if (bitDepth === 32) {
+        view.setFloat32(offset, sample, true);
+      } else {
+        const clipped = Math.max(-1, Math.min(1, sample));
+        const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+        const value = Math.round(clipped < 0 ? clipped * (max + 1) : clipped * max);
+        if (bitDepth === 16) {
+          view.setInt16(offset, value, true);
+        } else {
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        }
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}